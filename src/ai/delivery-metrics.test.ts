@@ -0,0 +1,107 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {computeDeliveryMetrics} from '@/ai/delivery-metrics';
+import type {Transcript} from '@/ai/transcription';
+
+// Ten words over a 20 second recording. The first and last segments have no word timings, so their words are
+// spread evenly across them: one second each.
+const TRANSCRIPT: Transcript = {
+  text: 'Um hello everyone. You know lava flows. Uhh like magma',
+  segments: [
+    {startSeconds: 1, endSeconds: 4, text: 'Um hello everyone.'},
+    {
+      startSeconds: 7,
+      endSeconds: 10,
+      text: 'You know lava flows.',
+      words: [
+        {word: 'You', startSeconds: 7, endSeconds: 7.5},
+        {word: 'know', startSeconds: 7.5, endSeconds: 8},
+        {word: 'lava', startSeconds: 8, endSeconds: 9},
+        {word: 'flows.', startSeconds: 9, endSeconds: 10},
+      ],
+    },
+    {startSeconds: 12, endSeconds: 15, text: 'Uhh like magma'},
+  ],
+};
+
+test('the whole talk is measured from word timings', () => {
+  const metrics = computeDeliveryMetrics(TRANSCRIPT, {durationSeconds: 20});
+  assert.equal(metrics.durationSeconds, 20);
+  assert.equal(metrics.totalWords, 10);
+  assert.equal(metrics.wordsPerMinute, 30);
+  assert.equal(metrics.speakingSeconds, 9);
+  assert.equal(metrics.talkTimeRatio, 0.45);
+  assert.deepEqual(metrics.longestSilence, {startSeconds: 15, endSeconds: 20, durationSeconds: 5});
+  assert.deepEqual(metrics.pauses, [
+    {startSeconds: 4, endSeconds: 7, durationSeconds: 3},
+    {startSeconds: 15, endSeconds: 20, durationSeconds: 5},
+  ]);
+});
+
+test('filler words are counted, including ones spoken as two words', () => {
+  const {fillerWords} = computeDeliveryMetrics(TRANSCRIPT, {durationSeconds: 20});
+  assert.equal(fillerWords.total, 4);
+  assert.equal(fillerWords.perMinute, 12);
+  assert.deepEqual(fillerWords.counts, [
+    {word: 'um', count: 1},
+    {word: 'uh', count: 1},
+    {word: 'like', count: 1},
+    {word: 'you know', count: 1},
+  ]);
+  assert.deepEqual(fillerWords.occurrences, [
+    {word: 'um', startSeconds: 1},
+    {word: 'you know', startSeconds: 7},
+    {word: 'uh', startSeconds: 12},
+    {word: 'like', startSeconds: 13},
+  ]);
+});
+
+test('a slide shown twice is rated over the time it was on screen', () => {
+  const {slides} = computeDeliveryMetrics(TRANSCRIPT, {
+    durationSeconds: 20,
+    slideTimings: [
+      {
+        startSeconds: 0,
+        endSeconds: 20,
+        visits: [
+          {startSeconds: 0, endSeconds: 5},
+          {startSeconds: 11, endSeconds: 20},
+        ],
+      },
+      {startSeconds: 5, endSeconds: 11},
+    ],
+  });
+  assert.deepEqual(slides, [
+    {
+      slideNumber: 1,
+      startSeconds: 0,
+      endSeconds: 20,
+      visits: [
+        {startSeconds: 0, endSeconds: 5},
+        {startSeconds: 11, endSeconds: 20},
+      ],
+      onScreenSeconds: 14,
+      words: 6,
+      wordsPerMinute: 25.7,
+    },
+    {
+      slideNumber: 2,
+      startSeconds: 5,
+      endSeconds: 11,
+      visits: undefined,
+      onScreenSeconds: 6,
+      words: 4,
+      wordsPerMinute: 40,
+    },
+  ]);
+});
+
+test('an empty transcript yields zeroes rather than dividing by zero', () => {
+  const metrics = computeDeliveryMetrics({text: '', segments: []});
+  assert.equal(metrics.durationSeconds, 0);
+  assert.equal(metrics.wordsPerMinute, 0);
+  assert.equal(metrics.talkTimeRatio, 0);
+  assert.equal(metrics.longestSilence, undefined);
+  assert.deepEqual(metrics.pauses, []);
+  assert.equal(metrics.fillerWords.total, 0);
+});
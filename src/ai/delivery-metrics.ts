@@ -0,0 +1,189 @@
+/**
+ * @fileOverview Hard delivery metrics computed from a timestamped transcript.
+ *
+ * These are plain calculations, not model judgments, so they can be compared between sessions.
+ * Silences are the gaps between transcribed words, so they are only as precise as the transcript timings.
+ *
+ * - DeliveryMetricsSchema - Speaking rate, filler words, silences and talk-time ratio.
+ * - computeDeliveryMetrics - Derives the metrics from a transcript.
+ */
+
+import {z} from 'genkit';
+import type {Transcript} from '@/ai/transcription';
+import {SlideTimingSchema, getSlideVisits, type SlideTiming} from '@/lib/slide-timing';
+
+// Each filler is matched word by word against normalized transcript words. "like" is counted every time it is
+// spoken, so "I like it" also counts. The count is a ceiling, not an exact figure.
+const FILLER_WORDS: {word: string; tokens: RegExp[]}[] = [
+  {word: 'um', tokens: [/^u+m+$/]},
+  {word: 'uh', tokens: [/^u+h+$/]},
+  {word: 'like', tokens: [/^like$/]},
+  {word: 'you know', tokens: [/^you$/, /^know$/]},
+];
+
+// Silences at least this long are reported individually as pauses.
+const LONG_PAUSE_SECONDS = 2.5;
+
+const SilenceSchema = z.object({
+  startSeconds: z.number(),
+  endSeconds: z.number(),
+  durationSeconds: z.number(),
+});
+
+export const DeliveryMetricsSchema = z.object({
+  durationSeconds: z.number().describe('Length of the recording in seconds.'),
+  totalWords: z.number().int(),
+  wordsPerMinute: z.number().describe('Average speaking rate over the whole recording.'),
+  speakingSeconds: z.number().describe('Time spent speaking, in seconds.'),
+  talkTimeRatio: z.number().describe('Share of the recording spent speaking, from 0 to 1.'),
+  longestSilence: SilenceSchema.optional().describe('The longest gap between words, including before the first and after the last word.'),
+  pauses: z.array(SilenceSchema).describe(`Every silence of at least ${LONG_PAUSE_SECONDS} seconds, in order.`),
+  fillerWords: z.object({
+    total: z.number().int(),
+    perMinute: z.number(),
+    counts: z.array(z.object({word: z.string(), count: z.number().int()})),
+    occurrences: z
+      .array(z.object({word: z.string(), startSeconds: z.number()}))
+      .describe('When each filler word was spoken, in order.'),
+  }),
+  slides: z
+    .array(
+      SlideTimingSchema.extend({
+        slideNumber: z.number().int(),
+        onScreenSeconds: z.number().describe('Total time the slide was on screen, across all of its visits.'),
+        words: z.number().int(),
+        wordsPerMinute: z.number(),
+      })
+    )
+    .describe('Speaking rate per slide. Empty if no slide timings were provided.'),
+});
+export type DeliveryMetrics = z.infer<typeof DeliveryMetricsSchema>;
+
+interface TimedWord {
+  word: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function perMinute(count: number, seconds: number): number {
+  return seconds > 0 ? round((count / seconds) * 60) : 0;
+}
+
+// Uses word timings where the transcript has them and spreads a segment's words evenly across it otherwise.
+function toTimedWords(transcript: Transcript): TimedWord[] {
+  return transcript.segments.flatMap(segment => {
+    if (segment.words?.length) return segment.words;
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const step = Math.max(0, segment.endSeconds - segment.startSeconds) / Math.max(1, words.length);
+    return words.map((word, index) => ({
+      word,
+      startSeconds: segment.startSeconds + index * step,
+      endSeconds: segment.startSeconds + (index + 1) * step,
+    }));
+  });
+}
+
+type Silence = z.infer<typeof SilenceSchema>;
+type FillerOccurrence = DeliveryMetrics['fillerWords']['occurrences'][number];
+
+function findSilences(words: TimedWord[], durationSeconds: number): Silence[] {
+  const silences: Silence[] = [];
+  const addGap = (startSeconds: number, endSeconds: number) => {
+    if (endSeconds > startSeconds) {
+      silences.push({
+        startSeconds: round(startSeconds),
+        endSeconds: round(endSeconds),
+        durationSeconds: round(endSeconds - startSeconds),
+      });
+    }
+  };
+
+  let previousEnd = 0;
+  for (const word of words) {
+    addGap(previousEnd, word.startSeconds);
+    previousEnd = Math.max(previousEnd, word.endSeconds);
+  }
+  addGap(previousEnd, durationSeconds);
+  return silences;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^a-z']/g, '');
+}
+
+function findFillerWords(words: TimedWord[]): FillerOccurrence[] {
+  const tokens = words.map(word => normalizeWord(word.word));
+  const occurrences: FillerOccurrence[] = [];
+  for (let index = 0; index < tokens.length; index++) {
+    const filler = FILLER_WORDS.find(candidate =>
+      candidate.tokens.every((pattern, offset) => pattern.test(tokens[index + offset] ?? ''))
+    );
+    if (filler) {
+      occurrences.push({word: filler.word, startSeconds: round(words[index].startSeconds)});
+      index += filler.tokens.length - 1;
+    }
+  }
+  return occurrences;
+}
+
+function countFillerWords(occurrences: FillerOccurrence[]): DeliveryMetrics['fillerWords']['counts'] {
+  return FILLER_WORDS.map(({word}) => ({
+    word,
+    count: occurrences.filter(occurrence => occurrence.word === word).length,
+  })).filter(({count}) => count > 0);
+}
+
+export function computeDeliveryMetrics(
+  transcript: Transcript,
+  options: {durationSeconds?: number; slideTimings?: SlideTiming[]} = {}
+): DeliveryMetrics {
+  const words = toTimedWords(transcript).sort((a, b) => a.startSeconds - b.startSeconds);
+  const lastWordEnd = words.length > 0 ? words[words.length - 1].endSeconds : 0;
+  const durationSeconds = Math.max(options.durationSeconds ?? 0, lastWordEnd);
+  const speakingSeconds = words.reduce((total, word) => total + Math.max(0, word.endSeconds - word.startSeconds), 0);
+  const silences = findSilences(words, durationSeconds);
+  const fillerOccurrences = findFillerWords(words);
+
+  return {
+    durationSeconds: round(durationSeconds),
+    totalWords: words.length,
+    wordsPerMinute: perMinute(words.length, durationSeconds),
+    speakingSeconds: round(speakingSeconds),
+    talkTimeRatio: durationSeconds > 0 ? round(Math.min(1, speakingSeconds / durationSeconds), 2) : 0,
+    longestSilence: silences.reduce<Silence | undefined>(
+      (longest, silence) => (!longest || silence.durationSeconds > longest.durationSeconds ? silence : longest),
+      undefined
+    ),
+    pauses: silences.filter(silence => silence.durationSeconds >= LONG_PAUSE_SECONDS),
+    fillerWords: {
+      total: fillerOccurrences.length,
+      perMinute: perMinute(fillerOccurrences.length, durationSeconds),
+      counts: countFillerWords(fillerOccurrences),
+      occurrences: fillerOccurrences,
+    },
+    slides: (options.slideTimings ?? []).map((timing, index) => {
+      const visits = getSlideVisits(timing);
+      const slideWords = words.filter(word =>
+        visits.some(visit => word.startSeconds >= visit.startSeconds && word.startSeconds < visit.endSeconds)
+      ).length;
+      const onScreenSeconds = visits.reduce((total, visit) => total + Math.max(0, visit.endSeconds - visit.startSeconds), 0);
+      return {
+        slideNumber: index + 1,
+        startSeconds: round(timing.startSeconds),
+        endSeconds: round(timing.endSeconds),
+        visits:
+          visits.length > 1
+            ? visits.map(visit => ({startSeconds: round(visit.startSeconds), endSeconds: round(visit.endSeconds)}))
+            : undefined,
+        onScreenSeconds: round(onScreenSeconds),
+        words: slideWords,
+        wordsPerMinute: perMinute(slideWords, onScreenSeconds),
+      };
+    }),
+  };
+}
@@ -2,4 +2,8 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/provide-presentation-feedback.ts';
-import '@/ai/flows/generate-presentation-images.ts';
\ No newline at end of file
+import '@/ai/flows/generate-presentation-images.ts';
+import '@/ai/flows/stream-presentation-images.ts';
+import '@/ai/flows/stream-presentation-feedback.ts';
+import '@/ai/flows/coach-presentation.ts';
+import '@/ai/flows/generate-exemplar-presentation.ts';
\ No newline at end of file
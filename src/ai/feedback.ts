@@ -0,0 +1,433 @@
+/**
+ * @fileOverview Shared presentation feedback used by the batch and streaming feedback flows.
+ *
+ * - ProvidePresentationFeedbackInputSchema / ProvidePresentationFeedbackOutputSchema - Schemas shared by both flows.
+ * - FeedbackPreviewSchema - The feedback graded so far, pushed to the client by the streaming flow.
+ * - generateFeedback - Transcribes the recording, measures delivery, then grades the talk against a rubric,
+ *   reporting the feedback as it is written.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {DeliveryMetricsSchema, computeDeliveryMetrics, type DeliveryMetrics} from '@/ai/delivery-metrics';
+import {PresentationOutlineSchema} from '@/ai/outline';
+import {loadSlideImageForModel} from '@/ai/slide-images';
+import {TranscriptSchema, transcribePresentation} from '@/ai/transcription';
+import {SlideTimingSchema, getSlideVisits} from '@/lib/slide-timing';
+import {DEFAULT_RUBRIC_ID, RubricSchema, findBuiltInRubric, type Rubric, type RubricCriterion} from '@/lib/rubrics';
+import {TimingLightsSchema, TimingWindowResultSchema, checkTimingWindow} from '@/lib/timing-lights';
+
+export const ProvidePresentationFeedbackInputSchema = z.object({
+  audioDataUri: z
+    .string()
+    .describe(
+      "A recording of the presentation audio, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  topic: z.string().describe('The topic of the presentation.'),
+  outline: PresentationOutlineSchema.optional().describe(
+    'The narrative outline the slides were generated from, if available.'
+  ),
+  recordingDurationSeconds: z.number().optional().describe('Length of the recording in seconds, as measured by the client.'),
+  slideTimings: z
+    .array(SlideTimingSchema)
+    .optional()
+    .describe('When each slide was on screen, in slide order, in seconds from the start of the recording.'),
+  targetDurationSeconds: z
+    .number()
+    .optional()
+    .describe('How long the speaker was aiming to talk for, in seconds, from the chosen timing profile.'),
+  timingLights: TimingLightsSchema.optional().describe('The timing lights shown to the speaker during the talk, if any.'),
+  speakerAdvancedSlides: z
+    .boolean()
+    .optional()
+    .describe('Whether the speaker moved on to each slide when ready, rather than on a fixed timer.'),
+  slides: z
+    .array(
+      z.object({
+        imageUrl: z.string().describe('The slide image URL returned by the image generation flow.'),
+        title: z.string().describe('The slide title.'),
+      })
+    )
+    .optional()
+    .describe('The slides that were shown, in slide order.'),
+  rubric: RubricSchema.optional().describe('The rubric to grade against. Defaults to the built-in impromptu rubric.'),
+});
+export type ProvidePresentationFeedbackInput = z.infer<
+  typeof ProvidePresentationFeedbackInputSchema
+>;
+
+// What the model returns for one criterion. The score bounds are narrowed per criterion in buildFeedbackModelOutputSchema.
+const CriterionAssessmentSchema = z.object({
+  feedback: z.string().describe('Detailed feedback on this criterion.'),
+  score: z.number().int().describe("A score on the criterion's scale."),
+  justification: z.string().describe('One or two sentences explaining the score.'),
+  keepDoing: z.array(z.string()).describe('One to three concrete things the speaker did well and should keep doing.'),
+  tryNextTime: z.array(z.string()).describe('One to three concrete, actionable things to try next time.'),
+});
+
+const CriterionResultSchema = CriterionAssessmentSchema.extend({
+  name: z.string().describe('The criterion name from the rubric.'),
+  weight: z.number().describe("The criterion's weight in the overall score."),
+  scale: z.object({min: z.number().int(), max: z.number().int()}),
+});
+export type CriterionResult = z.infer<typeof CriterionResultSchema>;
+
+const OverallAssessmentSchema = z.object({
+  keepDoing: z.array(z.string()).describe('One to three things the speaker should keep doing across the whole talk.'),
+  tryNextTime: z.array(z.string()).describe('One to three things that would most improve the whole talk next time.'),
+});
+
+const OverallResultSchema = OverallAssessmentSchema.extend({
+  score: z.number().min(0).max(100).describe('The weighted rubric score, as a percentage of the best possible score.'),
+});
+export type OverallResult = z.infer<typeof OverallResultSchema>;
+
+const SlideFeedbackSchema = z.object({
+  slideNumber: z.number().int().describe('The slide this feedback is about, starting at 1.'),
+  imageDescription: z.string().describe('A one-sentence description of what the slide image actually shows.'),
+  interpretationScore: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .describe('How well the speaker interpreted this image and tied it to the topic, from 1 (ignored or misread it) to 10 (insightful).'),
+  imageConnection: z
+    .string()
+    .describe('Whether and how the speaker connected what they said to the image on this slide.'),
+  timeUse: z.string().describe('How well the speaker used the time this slide was on screen.'),
+  transition: z
+    .string()
+    .describe('How smoothly the speaker moved into this slide from the previous one. For the first slide, how well they opened.'),
+});
+export type SlideFeedback = z.infer<typeof SlideFeedbackSchema>;
+
+const FeedbackMomentSchema = z.object({
+  timeSeconds: z.number().describe('When the moment starts, in seconds from the start of the recording.'),
+  kind: z.enum(['strength', 'improvement']),
+  comment: z.string().describe('A short comment on the moment, ideally quoting the speaker.'),
+});
+type FeedbackMoment = z.infer<typeof FeedbackMomentSchema>;
+
+const FeedbackAnnotationSchema = z.object({
+  startSeconds: z.number().describe('Where in the recording the annotation points, in seconds.'),
+  endSeconds: z.number().optional().describe('Where the annotated span ends, for spans such as pauses.'),
+  kind: z.enum(['filler', 'pause', 'strength', 'improvement']),
+  label: z.string().describe('A short description to show next to the marker.'),
+});
+export type FeedbackAnnotation = z.infer<typeof FeedbackAnnotationSchema>;
+
+const FeedbackModelOutputSchema = z.object({
+  criteria: z
+    .record(CriterionAssessmentSchema)
+    .describe('One assessment per rubric criterion, keyed by criterion id.'),
+  overallFeedback: z.string().describe('Overall feedback on the presentation.'),
+  overall: OverallAssessmentSchema,
+  slideFeedback: z
+    .array(SlideFeedbackSchema)
+    .optional()
+    .describe('One entry per slide, in slide order. Only present when slides were provided.'),
+  moments: z
+    .array(FeedbackMomentSchema)
+    .optional()
+    .describe('Two to five notable moments in the recording. Only present when a transcript was provided.'),
+});
+type FeedbackModelOutput = z.infer<typeof FeedbackModelOutputSchema>;
+
+// Callers may still build feedback without grading (e.g. when no audio was recorded), so only the summary is required.
+export const ProvidePresentationFeedbackOutputSchema = z.object({
+  rubric: z.object({id: z.string(), name: z.string()}).optional().describe('The rubric the talk was graded against.'),
+  criteria: z
+    .record(CriterionResultSchema)
+    .optional()
+    .describe('Results keyed by criterion id, in rubric order. Criteria that did not apply to the talk are left out.'),
+  overallFeedback: z.string().describe('Overall feedback on the presentation.'),
+  overall: OverallResultSchema.optional(),
+  slideFeedback: FeedbackModelOutputSchema.shape.slideFeedback,
+  moments: FeedbackModelOutputSchema.shape.moments,
+  transcript: TranscriptSchema.optional().describe('A timestamped transcript of the recording, if transcription succeeded.'),
+  metrics: DeliveryMetricsSchema.optional().describe('Delivery metrics computed from the transcript, if transcription succeeded.'),
+  timingWindow: TimingWindowResultSchema.optional().describe(
+    'Whether the talk finished inside the timing-light window, if timing lights were used.'
+  ),
+  annotations: z
+    .array(FeedbackAnnotationSchema)
+    .optional()
+    .describe('Timestamped markers for playback: filler words, long pauses and notable moments, in time order.'),
+});
+export type ProvidePresentationFeedbackOutput = z.infer<
+  typeof ProvidePresentationFeedbackOutputSchema
+>;
+
+// Criteria are listed up front so the client can lay out every card before its text arrives.
+export const FeedbackPreviewSchema = z.object({
+  rubric: ProvidePresentationFeedbackOutputSchema.shape.rubric,
+  criteria: z.record(CriterionResultSchema.partial().required({name: true, weight: true, scale: true})),
+  overallFeedback: z.string().optional(),
+  overall: OverallAssessmentSchema.partial().optional(),
+});
+export type FeedbackPreview = z.infer<typeof FeedbackPreviewSchema>;
+
+const SlideContextSchema = z.object({
+  slideNumber: z.number().int(),
+  title: z.string(),
+  // More than one visit means the speaker came back to the slide.
+  visits: z.array(z.object({startSeconds: z.number(), endSeconds: z.number()})).optional(),
+  imageDataUri: z.string().optional(),
+});
+type SlideContext = z.infer<typeof SlideContextSchema>;
+
+const FeedbackPromptInputSchema = ProvidePresentationFeedbackInputSchema.extend({
+  transcript: TranscriptSchema.optional(),
+  metrics: DeliveryMetricsSchema.optional(),
+  slideContext: z.array(SlideContextSchema).optional(),
+  timingWindow: TimingWindowResultSchema.optional(),
+  rubric: RubricSchema.describe('The rubric to grade against, with criteria that do not apply already removed.'),
+});
+
+const providePresentationFeedbackPrompt = ai.definePrompt({
+  name: 'providePresentationFeedbackPrompt',
+  input: {schema: FeedbackPromptInputSchema},
+  // The output schema depends on the rubric, so it is passed per call (see buildFeedbackModelOutputSchema).
+  output: {format: 'json'},
+  prompt: `You are an AI agent providing feedback on presentations. Analyze the presentation recording and grade it against the "{{{rubric.name}}}" rubric below.
+
+Presentation Topic: {{{topic}}}
+
+Presentation Audio: {{media url=audioDataUri}}
+{{#if transcript}}
+
+Transcript (times in seconds from the start of the recording):
+{{#each transcript.segments}}
+[{{startSeconds}}s-{{endSeconds}}s] {{{text}}}
+{{/each}}
+
+Where it makes a point concrete, quote the speaker's own words from the transcript.
+
+Also pick out two to five notable moments, each with the time in seconds where it starts: strong moments worth repeating, and moments where a different approach would have helped.
+{{/if}}
+{{#if metrics}}
+
+Measured delivery metrics (calculated from the transcript timings; treat them as facts):
+- Duration: {{metrics.durationSeconds}}s, {{metrics.totalWords}} words, {{metrics.wordsPerMinute}} words per minute overall.
+- Talk-time ratio: {{metrics.talkTimeRatio}} of the recording was spent speaking.
+- Filler words: {{metrics.fillerWords.total}} in total ({{metrics.fillerWords.perMinute}} per minute).{{#each metrics.fillerWords.counts}} "{{word}}": {{count}}.{{/each}}
+{{#if metrics.longestSilence}}
+- Longest silence: {{metrics.longestSilence.durationSeconds}}s, starting at {{metrics.longestSilence.startSeconds}}s.
+{{/if}}
+{{#each metrics.slides}}
+- Slide {{slideNumber}}: {{words}} words, {{wordsPerMinute}} words per minute.
+{{/each}}
+
+Base any feedback on pacing or delivery on these numbers. Around 120 to 160 words per minute is a comfortable pace for a talk; pauses of a second or two are fine, but long silences and frequent fillers are worth pointing out.
+{{/if}}
+{{#if timingWindow}}
+
+Timing lights were shown during the talk: green at {{timingWindow.greenSeconds}}s and red at {{timingWindow.redSeconds}}s. The talk ran for {{timingWindow.durationSeconds}}s, {{#if timingWindow.withinWindow}}finishing inside{{else}}finishing outside{{/if}} that window.
+{{/if}}
+{{#if targetDurationSeconds}}
+
+The speaker was aiming to talk for {{targetDurationSeconds}}s. Judge the pacing against this target: running well short of it or over it is worth pointing out, as is how the time was shared between the slides.
+{{/if}}
+{{#if slideContext}}
+
+The speaker was improvising about these slide images, seeing each one for the first time as it appeared. Times are in seconds from the start of the recording:
+{{#each slideContext}}
+- Slide {{slideNumber}} "{{{title}}}"{{#if visits}}, on screen{{#each visits}}{{#unless @first}} and{{/unless}} from {{startSeconds}}s to {{endSeconds}}s{{/each}}{{/if}}.{{#if imageDataUri}} Image: {{media url=imageDataUri}}{{else}} (Image not available.){{/if}}
+{{/each}}
+{{#if speakerAdvancedSlides}}
+
+The speaker moved between the slides themselves, so the time spent on each slide was their own choice. A slide with more than one time range is one they went back to. Say whether they gave each slide the time it deserved.
+{{/if}}
+
+Look closely at each slide image when judging the content. Noticing concrete details in an image and using them is better than talking past it about the topic in general.
+{{/if}}
+{{#if outline}}
+
+The slides were generated from this planned narrative arc, one beat per slide in slide order:
+Thesis: {{{outline.thesis}}}
+{{#each outline.beats}}
+- {{role}} - "{{{heading}}}": {{{summary}}}
+{{/each}}
+{{/if}}
+
+Rubric: {{{rubric.name}}}{{#if rubric.description}} - {{{rubric.description}}}{{/if}}
+{{#each rubric.criteria}}
+- {{{name}}} (key "{{id}}", weight {{weight}}, scored from {{scale.min}} to {{scale.max}}): {{{description}}}{{#if scale.anchors}} Scale:{{#each scale.anchors}} {{score}} = {{{label}}};{{/each}}{{/if}}
+{{/each}}
+
+For each criterion, keyed by its key, give detailed feedback, a score on that criterion's scale with a short justification, plus concrete "keep doing" and "try next time" bullet points. Use each scale fully and consistently.
+
+Also provide an overall feedback summary, with "keep doing" and "try next time" bullet points for the talk as a whole. Criteria with a higher weight matter more to the overall picture.
+{{#if slideContext}}
+
+Then give feedback for each slide, using the part of the talk given while that slide was on screen: briefly describe what the image shows, score how well the speaker interpreted it, say whether they connected what they said to the image, whether they used the slide's time well, and how smooth the transition into it was.
+{{/if}}`,
+});
+
+// Pairs each slide with its timing and image so the model can see what the speaker was looking at.
+// Returns undefined when neither slides nor slide timings were sent.
+async function buildSlideContext(input: ProvidePresentationFeedbackInput): Promise<SlideContext[] | undefined> {
+  const slideCount = Math.max(input.slides?.length ?? 0, input.slideTimings?.length ?? 0);
+  if (slideCount === 0) return undefined;
+  return Promise.all(
+    Array.from({length: slideCount}, async (_, index) => {
+      const slide = input.slides?.[index];
+      const timing = input.slideTimings?.[index];
+      const imageDataUri = slide ? await loadSlideImageForModel(slide.imageUrl) : null;
+      return {
+        slideNumber: index + 1,
+        title: slide?.title ?? `Slide ${index + 1}`,
+        visits:
+          timing &&
+          getSlideVisits(timing).map(({startSeconds, endSeconds}) => ({
+            startSeconds: Math.round(startSeconds * 10) / 10,
+            endSeconds: Math.round(endSeconds * 10) / 10,
+          })),
+        imageDataUri: imageDataUri ?? undefined,
+      };
+    })
+  );
+}
+
+function buildAnnotations(metrics: DeliveryMetrics | undefined, moments: FeedbackMoment[] = []): FeedbackAnnotation[] {
+  const annotations: FeedbackAnnotation[] = [
+    ...(metrics?.fillerWords.occurrences ?? []).map(({word, startSeconds}) => ({
+      startSeconds,
+      kind: 'filler' as const,
+      label: `Filler word: "${word}"`,
+    })),
+    ...(metrics?.pauses ?? []).map(({startSeconds, endSeconds, durationSeconds}) => ({
+      startSeconds,
+      endSeconds,
+      kind: 'pause' as const,
+      label: `${durationSeconds.toFixed(1)}s pause`,
+    })),
+    ...moments.map(({timeSeconds, kind, comment}) => ({startSeconds: timeSeconds, kind, label: comment})),
+  ];
+  return annotations.sort((a, b) => a.startSeconds - b.startSeconds);
+}
+
+// Narrows each criterion's score to its own scale, so the model's output is validated against the rubric.
+function buildFeedbackModelOutputSchema(criteria: RubricCriterion[]) {
+  return FeedbackModelOutputSchema.extend({
+    criteria: z
+      .object(
+        Object.fromEntries(
+          criteria.map(criterion => [
+            criterion.id,
+            CriterionAssessmentSchema.extend({
+              score: z
+                .number()
+                .int()
+                .min(criterion.scale.min)
+                .max(criterion.scale.max)
+                .describe(`A score from ${criterion.scale.min} to ${criterion.scale.max}.`),
+            }).describe(`${criterion.name}: ${criterion.description}`),
+          ])
+        )
+      )
+      .describe('One assessment per rubric criterion, keyed by criterion id.'),
+  });
+}
+
+function buildCriterionResults(
+  criteria: RubricCriterion[],
+  assessments: FeedbackModelOutput['criteria']
+): Record<string, CriterionResult> {
+  return Object.fromEntries(
+    criteria.map(({id, name, weight, scale}) => [
+      id,
+      {...assessments[id], name, weight, scale: {min: scale.min, max: scale.max}},
+    ])
+  );
+}
+
+// Weighted mean of the criterion scores, each normalised to its own scale, as a percentage.
+function computeOverallScore(results: Record<string, CriterionResult>): number {
+  const entries = Object.values(results);
+  const totalWeight = entries.reduce((sum, {weight}) => sum + weight, 0);
+  const weighted = entries.reduce(
+    (sum, {score, weight, scale}) => sum + ((score - scale.min) / (scale.max - scale.min)) * weight,
+    0
+  );
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0;
+}
+
+// Maps the model's partially parsed output onto the rubric, keeping only the fields the preview can show.
+function buildFeedbackPreview(
+  rubric: Rubric,
+  criteria: RubricCriterion[],
+  partial: Partial<FeedbackModelOutput> | null | undefined
+): FeedbackPreview {
+  return {
+    rubric: {id: rubric.id, name: rubric.name},
+    criteria: Object.fromEntries(
+      criteria.map(({id, name, weight, scale}) => [
+        id,
+        {...partial?.criteria?.[id], name, weight, scale: {min: scale.min, max: scale.max}},
+      ])
+    ),
+    overallFeedback: partial?.overallFeedback,
+    overall: partial?.overall,
+  };
+}
+
+export async function generateFeedback(
+  input: ProvidePresentationFeedbackInput,
+  onPreview?: (preview: FeedbackPreview) => void
+): Promise<ProvidePresentationFeedbackOutput> {
+  const rubric: Rubric = input.rubric ?? findBuiltInRubric(DEFAULT_RUBRIC_ID)!;
+  const applicableRubric = {
+    ...rubric,
+    criteria: rubric.criteria.filter(criterion => !criterion.requiresOutline || input.outline),
+  };
+  onPreview?.(buildFeedbackPreview(rubric, applicableRubric.criteria, undefined));
+
+  const transcript = (await transcribePresentation(input.audioDataUri)) ?? undefined;
+  const metrics = transcript
+    ? computeDeliveryMetrics(transcript, {
+        durationSeconds: input.recordingDurationSeconds,
+        slideTimings: input.slideTimings,
+      })
+    : undefined;
+  const slideContext = await buildSlideContext(input);
+  const timingWindow =
+    input.timingLights && input.recordingDurationSeconds !== undefined
+      ? checkTimingWindow(input.timingLights, input.recordingDurationSeconds)
+      : undefined;
+  const {stream, response} = providePresentationFeedbackPrompt.stream(
+    {...input, transcript, metrics, slideContext, timingWindow, rubric: applicableRubric},
+    {output: {schema: buildFeedbackModelOutputSchema(applicableRubric.criteria)}}
+  );
+  if (onPreview) {
+    for await (const chunk of stream) {
+      // The JSON parsed so far; any nested object may still be missing fields.
+      onPreview(buildFeedbackPreview(rubric, applicableRubric.criteria, chunk.output as Partial<FeedbackModelOutput> | null));
+    }
+  }
+  const modelOutput: FeedbackModelOutput | null = (await response).output;
+  if (!modelOutput) {
+    // Nothing to grade from, but the transcript and metrics are still worth showing.
+    return {
+      overallFeedback:
+        'The presentation could not be graded this time. Your transcript and delivery metrics are below; try again for rubric feedback.',
+      transcript,
+      metrics,
+      timingWindow,
+      annotations: buildAnnotations(metrics),
+    };
+  }
+  const criteria = buildCriterionResults(applicableRubric.criteria, modelOutput.criteria);
+  return {
+    rubric: {id: rubric.id, name: rubric.name},
+    criteria,
+    overallFeedback: modelOutput.overallFeedback,
+    overall: {...modelOutput.overall, score: computeOverallScore(criteria)},
+    slideFeedback: modelOutput.slideFeedback,
+    moments: modelOutput.moments,
+    transcript,
+    metrics,
+    timingWindow,
+    annotations: buildAnnotations(metrics, modelOutput.moments),
+  };
+}
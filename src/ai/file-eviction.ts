@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Age and size based eviction for the on-disk caches, shared by the image cache and the image store.
+ *
+ * Files are treated as last used at their modification time, so readers bump it with markRecentlyUsed.
+ *
+ * - readNumberEnv - Reads a non-negative number, such as a TTL or size budget, from the environment.
+ * - markRecentlyUsed - Bumps a file's modification time so eviction keeps it longer.
+ * - evictByAgeAndSize - Deletes files unused for longer than the TTL, then the least recently used ones until
+ *   the directory fits its size budget.
+ */
+
+import {readdir, rm, stat, utimes} from 'node:fs/promises';
+import path from 'node:path';
+
+export function readNumberEnv(name: string, fallback: number, {allowZero = true} = {}): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && (allowZero ? value >= 0 : value > 0) ? value : fallback;
+}
+
+export async function markRecentlyUsed(filePath: string): Promise<void> {
+  const now = new Date();
+  await utimes(filePath, now, now);
+}
+
+export async function evictByAgeAndSize(
+  dir: string,
+  filter: (fileName: string) => boolean,
+  ttlMs: number,
+  maxBytes: number
+): Promise<void> {
+  const now = Date.now();
+  const files = (await readdir(dir)).filter(filter);
+  const entries = await Promise.all(
+    files.map(async file => {
+      const filePath = path.join(dir, file);
+      try {
+        const stats = await stat(filePath);
+        return {filePath, size: stats.size, lastUsed: stats.mtimeMs};
+      } catch {
+        // Removed by a concurrent sweep.
+        return null;
+      }
+    })
+  );
+
+  let totalBytes = 0;
+  const live = [];
+  for (const entry of entries) {
+    if (!entry) continue;
+    if (now - entry.lastUsed > ttlMs) {
+      await rm(entry.filePath, {force: true});
+    } else {
+      live.push(entry);
+      totalBytes += entry.size;
+    }
+  }
+
+  live.sort((a, b) => a.lastUsed - b.lastUsed);
+  for (const entry of live) {
+    if (totalBytes <= maxBytes) break;
+    await rm(entry.filePath, {force: true});
+    totalBytes -= entry.size;
+  }
+}
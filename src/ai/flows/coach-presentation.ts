@@ -0,0 +1,126 @@
+'use server';
+
+/**
+ * @fileOverview A follow-up coaching chat about a presentation that has already received feedback.
+ *
+ * The server keeps no state: the client sends the session context and the conversation so far with every message.
+ *
+ * - coachPresentation - Answers the speaker's next question about their presentation.
+ * - CoachPresentationInput - The input type for the coachPresentation function.
+ * - CoachPresentationOutput - The return type for the coachPresentation function.
+ * - CoachingMessage - One turn of the conversation.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {ProvidePresentationFeedbackOutputSchema} from '@/ai/feedback';
+import {MAX_COACHING_MESSAGE_LENGTH} from '@/lib/presentation';
+import {getSlideVisits} from '@/lib/slide-timing';
+
+const CoachingMessageSchema = z.object({
+  role: z.enum(['user', 'model']).describe('"user" for the speaker, "model" for the coach.'),
+  text: z.string(),
+});
+export type CoachingMessage = z.infer<typeof CoachingMessageSchema>;
+
+const CoachPresentationInputSchema = z.object({
+  topic: z.string().describe('The topic of the presentation.'),
+  slides: z
+    .array(z.object({title: z.string().describe('The slide title.')}))
+    .describe('The slides that were shown, in slide order.'),
+  feedback: ProvidePresentationFeedbackOutputSchema.omit({annotations: true, moments: true}).describe(
+    'The feedback the presentation received, including its transcript and delivery metrics when available.'
+  ),
+  history: z.array(CoachingMessageSchema).describe('The conversation so far, oldest first.'),
+  message: z.string().min(1).max(MAX_COACHING_MESSAGE_LENGTH).describe("The speaker's new message."),
+});
+export type CoachPresentationInput = z.infer<typeof CoachPresentationInputSchema>;
+
+const CoachPresentationOutputSchema = z.object({
+  reply: z.string().describe("The coach's answer."),
+});
+export type CoachPresentationOutput = z.infer<typeof CoachPresentationOutputSchema>;
+
+export async function coachPresentation(input: CoachPresentationInput): Promise<CoachPresentationOutput> {
+  return coachPresentationFlow(input);
+}
+
+const CoachingSlideSchema = z.object({
+  slideNumber: z.number().int(),
+  title: z.string(),
+  visits: z.array(z.object({startSeconds: z.number(), endSeconds: z.number()})).optional(),
+  imageDescription: z.string().optional(),
+  feedback: z.string().optional(),
+});
+type CoachingSlide = z.infer<typeof CoachingSlideSchema>;
+
+const CoachPromptInputSchema = CoachPresentationInputSchema.omit({history: true, slides: true}).extend({
+  slides: z.array(CoachingSlideSchema),
+});
+
+const coachPresentationPrompt = ai.definePrompt({
+  name: 'coachPresentationPrompt',
+  input: {schema: CoachPromptInputSchema},
+  system: `You are a friendly, expert presentation coach. The speaker just gave an impromptu presentation, improvising about slide images they had never seen before, and received the feedback below. Answer their follow-up questions about this presentation.
+
+Be specific: refer to particular slides and quote what the speaker actually said. When they ask for better wording, such as an opening, a transition or a conclusion, write it out the way they could say it aloud. Keep answers short enough to read comfortably in a chat unless they ask for more.
+
+Presentation Topic: {{{topic}}}
+
+Slides, in order (times in seconds from the start of the recording):
+{{#each slides}}
+- Slide {{slideNumber}} "{{{title}}}"{{#if visits}}, on screen{{#each visits}}{{#unless @first}} and{{/unless}} from {{startSeconds}}s to {{endSeconds}}s{{/each}}{{/if}}.{{#if imageDescription}} The image shows: {{{imageDescription}}}{{/if}}{{#if feedback}} Feedback: {{{feedback}}}{{/if}}
+{{/each}}
+{{#if feedback.transcript}}
+
+Transcript:
+{{#each feedback.transcript.segments}}
+[{{startSeconds}}s-{{endSeconds}}s] {{{text}}}
+{{/each}}
+{{/if}}
+{{#if feedback.metrics}}
+
+Delivery metrics: {{feedback.metrics.wordsPerMinute}} words per minute, {{feedback.metrics.fillerWords.total}} filler words, {{feedback.metrics.talkTimeRatio}} of the recording spent speaking.
+{{/if}}
+
+Feedback already given{{#if feedback.rubric}}, graded against the "{{{feedback.rubric.name}}}" rubric{{/if}}:
+{{#each feedback.criteria}}
+- {{{name}}} ({{score}} on a scale from {{scale.min}} to {{scale.max}}): {{{feedback}}}
+{{/each}}
+- Overall{{#if feedback.overall}} ({{feedback.overall.score}}%){{/if}}: {{{feedback.overallFeedback}}}
+
+Build on this feedback rather than repeating it, and do not contradict it without saying why.`,
+  prompt: `{{{message}}}`,
+});
+
+// Lines up slide titles with their timings and per-slide feedback, so the coach can talk about "slide 2".
+function buildCoachingSlides(input: CoachPresentationInput): CoachingSlide[] {
+  return input.slides.map(({title}, index) => {
+    const slideNumber = index + 1;
+    const timing = input.feedback.metrics?.slides.find(slide => slide.slideNumber === slideNumber);
+    const slideFeedback = input.feedback.slideFeedback?.find(slide => slide.slideNumber === slideNumber);
+    return {
+      slideNumber,
+      title,
+      visits: timing && getSlideVisits(timing),
+      imageDescription: slideFeedback?.imageDescription,
+      feedback: slideFeedback && `${slideFeedback.imageConnection} ${slideFeedback.transition}`,
+    };
+  });
+}
+
+const coachPresentationFlow = ai.defineFlow(
+  {
+    name: 'coachPresentationFlow',
+    inputSchema: CoachPresentationInputSchema,
+    outputSchema: CoachPresentationOutputSchema,
+  },
+  async input => {
+    const {history, ...context} = input;
+    const {text} = await coachPresentationPrompt(
+      {...context, slides: buildCoachingSlides(input)},
+      {messages: history.map(({role, text}) => ({role, content: [{text}]}))}
+    );
+    return {reply: text};
+  }
+);
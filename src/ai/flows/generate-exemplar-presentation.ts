@@ -0,0 +1,121 @@
+'use server';
+
+/**
+ * @fileOverview Writes a model answer for a presentation the speaker has just improvised, for side-by-side comparison.
+ *
+ * The exemplar covers the same topic and slides, and is sized to the time each slide was actually on screen.
+ *
+ * - generateExemplarPresentation - Writes key points and a sample script for every slide.
+ * - GenerateExemplarPresentationInput - The input type for the generateExemplarPresentation function.
+ * - GenerateExemplarPresentationOutput - The return type for the generateExemplarPresentation function.
+ * - ExemplarSlide - The exemplar for a single slide.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {PresentationOutlineSchema} from '@/ai/outline';
+import {loadSlideImageForModel} from '@/ai/slide-images';
+
+// The middle of the comfortable 120-160 words per minute range the feedback flow coaches towards.
+const EXEMPLAR_WORDS_PER_MINUTE = 140;
+
+const GenerateExemplarPresentationInputSchema = z.object({
+  topic: z.string().describe('The topic of the presentation.'),
+  slides: z
+    .array(
+      z.object({
+        imageUrl: z.string().describe('The slide image URL returned by the image generation flow.'),
+        title: z.string().describe('The slide title.'),
+        durationSeconds: z.number().positive().describe('How long the slide was on screen, in seconds.'),
+      })
+    )
+    .min(1)
+    .describe('The slides that were shown, in slide order.'),
+  outline: PresentationOutlineSchema.optional().describe(
+    'The narrative outline the slides were generated from, if available.'
+  ),
+});
+export type GenerateExemplarPresentationInput = z.infer<typeof GenerateExemplarPresentationInputSchema>;
+
+const ExemplarSlideSchema = z.object({
+  slideNumber: z.number().int().describe('The slide this part of the script is for, starting at 1.'),
+  keyPoints: z.array(z.string()).describe('Two or three short points this part of the talk makes.'),
+  script: z.string().describe('What a strong speaker could say while this slide is on screen, word for word.'),
+});
+export type ExemplarSlide = z.infer<typeof ExemplarSlideSchema>;
+
+const GenerateExemplarPresentationOutputSchema = z.object({
+  slides: z.array(ExemplarSlideSchema).describe('One entry per slide, in slide order.'),
+});
+export type GenerateExemplarPresentationOutput = z.infer<typeof GenerateExemplarPresentationOutputSchema>;
+
+export async function generateExemplarPresentation(
+  input: GenerateExemplarPresentationInput
+): Promise<GenerateExemplarPresentationOutput> {
+  return generateExemplarPresentationFlow(input);
+}
+
+const ExemplarPromptInputSchema = GenerateExemplarPresentationInputSchema.omit({slides: true}).extend({
+  slides: z.array(
+    z.object({
+      slideNumber: z.number().int(),
+      title: z.string(),
+      durationSeconds: z.number(),
+      targetWords: z.number().int(),
+      imageDataUri: z.string().optional(),
+    })
+  ),
+});
+
+const generateExemplarPresentationPrompt = ai.definePrompt({
+  name: 'generateExemplarPresentationPrompt',
+  input: {schema: ExemplarPromptInputSchema},
+  output: {schema: GenerateExemplarPresentationOutputSchema},
+  prompt: `You are an expert presenter. A speaker has just improvised a short presentation about a series of slide images, seeing each image for the first time as it appeared. Write a model answer they can compare their own talk with: what a strong speaker could have said about the same slides in the same time.
+
+Presentation Topic: {{{topic}}}
+{{#if outline}}
+
+The slides were generated from this planned narrative arc, one beat per slide in slide order:
+Thesis: {{{outline.thesis}}}
+{{#each outline.beats}}
+- {{role}} - "{{{heading}}}": {{{summary}}}
+{{/each}}
+{{/if}}
+
+Slides, in order:
+{{#each slides}}
+- Slide {{slideNumber}} "{{{title}}}", on screen for {{durationSeconds}} seconds, about {{targetWords}} words.{{#if imageDataUri}} Image: {{media url=imageDataUri}}{{else}} (Image not available.){{/if}}
+{{/each}}
+
+For each slide, give two or three key points and a word-for-word script to be spoken while that slide is on screen. Keep each script close to its word count, so the whole talk fits the same time the speaker had. Refer to concrete details in each image and tie them to the topic, open strongly on the first slide, make each later slide's script start with a smooth transition from the one before, and close with a clear conclusion on the last slide. Write the way people speak, not the way they write.`,
+});
+
+const generateExemplarPresentationFlow = ai.defineFlow(
+  {
+    name: 'generateExemplarPresentationFlow',
+    inputSchema: GenerateExemplarPresentationInputSchema,
+    outputSchema: GenerateExemplarPresentationOutputSchema,
+  },
+  async input => {
+    const slides = await Promise.all(
+      input.slides.map(async (slide, index) => ({
+        slideNumber: index + 1,
+        title: slide.title,
+        durationSeconds: Math.round(slide.durationSeconds),
+        targetWords: Math.max(10, Math.round((slide.durationSeconds / 60) * EXEMPLAR_WORDS_PER_MINUTE)),
+        imageDataUri: (await loadSlideImageForModel(slide.imageUrl)) ?? undefined,
+      }))
+    );
+    const {output} = await generateExemplarPresentationPrompt({...input, slides});
+    // Keep exactly one entry per slide, in order, even when the model returns nothing, so the UI can line it up with the transcript.
+    return {
+      slides: slides.map(({slideNumber}) => ({
+        slideNumber,
+        keyPoints: [],
+        script: '',
+        ...output?.slides.find(slide => slide.slideNumber === slideNumber),
+      })),
+    };
+  }
+);
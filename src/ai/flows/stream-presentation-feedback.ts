@@ -0,0 +1,27 @@
+/**
+ * @fileOverview Streaming presentation feedback flow.
+ *
+ * Unlike providePresentationFeedback, this flow pushes the feedback to the client while the model is still writing it,
+ * so each section can be shown as soon as it arrives. It is served by the
+ * /api/provide-presentation-feedback route handler and consumed with `streamFlow` from `@genkit-ai/next/client`.
+ *
+ * - streamPresentationFeedbackFlow - The streaming flow. Each chunk is a FeedbackPreview of everything graded so far.
+ */
+
+import {ai} from '@/ai/genkit';
+import {
+  FeedbackPreviewSchema,
+  ProvidePresentationFeedbackInputSchema,
+  ProvidePresentationFeedbackOutputSchema,
+  generateFeedback,
+} from '@/ai/feedback';
+
+export const streamPresentationFeedbackFlow = ai.defineFlow(
+  {
+    name: 'streamPresentationFeedbackFlow',
+    inputSchema: ProvidePresentationFeedbackInputSchema,
+    outputSchema: ProvidePresentationFeedbackOutputSchema,
+    streamSchema: FeedbackPreviewSchema,
+  },
+  async (input, {sendChunk}) => generateFeedback(input, sendChunk)
+);
@@ -0,0 +1,27 @@
+/**
+ * @fileOverview Streaming image generation flow for presentation slideshows.
+ *
+ * Unlike generatePresentationImages, this flow pushes each slide to the client as soon as it is ready,
+ * so the slideshow can start before every image exists. It is served by the
+ * /api/generate-presentation-images route handler and consumed with `streamFlow` from `@genkit-ai/next/client`.
+ *
+ * - streamPresentationImagesFlow - The streaming flow. Each chunk is a SlideChunk.
+ */
+
+import {ai} from '@/ai/genkit';
+import {
+  GeneratePresentationImagesInputSchema,
+  GeneratePresentationImagesOutputSchema,
+  SlideChunkSchema,
+  generateSlides,
+} from '@/ai/slides';
+
+export const streamPresentationImagesFlow = ai.defineFlow(
+  {
+    name: 'streamPresentationImagesFlow',
+    inputSchema: GeneratePresentationImagesInputSchema,
+    outputSchema: GeneratePresentationImagesOutputSchema,
+    streamSchema: SlideChunkSchema,
+  },
+  async (input, {sendChunk}) => generateSlides(input, sendChunk)
+);
@@ -0,0 +1,82 @@
+/**
+ * @fileOverview Content-addressed on-disk cache for generated presentations.
+ *
+ * Entries are JSON files named by the SHA-256 of the normalized generation settings. Expired entries are
+ * removed when read, and entries unused for longer than the TTL are swept after each write. The sweep then
+ * evicts the least recently used entries until the cache fits its size budget.
+ *
+ * - IMAGE_CACHE_DIR - Cache directory. Defaults to .cache/presentation-images in the project root.
+ * - IMAGE_CACHE_TTL_MS - Entry lifetime in milliseconds. Defaults to 24 hours.
+ * - IMAGE_CACHE_MAX_BYTES - Total size budget in bytes. Defaults to 200 MB. Set to 0 to disable the cache.
+ */
+
+import {createHash} from 'node:crypto';
+import {mkdir, readFile, rename, rm, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {evictByAgeAndSize, markRecentlyUsed, readNumberEnv} from '@/ai/file-eviction';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+const CACHE_DIR = process.env.IMAGE_CACHE_DIR || path.join(process.cwd(), '.cache', 'presentation-images');
+const CACHE_TTL_MS = readNumberEnv('IMAGE_CACHE_TTL_MS', DEFAULT_TTL_MS);
+const CACHE_MAX_BYTES = readNumberEnv('IMAGE_CACHE_MAX_BYTES', DEFAULT_MAX_BYTES);
+
+interface CacheEntry {
+  createdAt: number;
+  value: unknown;
+}
+
+function entryPath(key: string): string {
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+export function isImageCacheEnabled(): boolean {
+  return CACHE_MAX_BYTES > 0;
+}
+
+/** Normalizes free text so trivially different spellings of the same settings share an entry. */
+export function normalizeCacheText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function buildCacheKey(parts: Record<string, string | number | undefined>): string {
+  const canonical = JSON.stringify(Object.keys(parts).sort().map(name => [name, parts[name] ?? null]));
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/** Returns the cached value for `key`, or null on a miss, an expired entry or an unreadable file. */
+export async function readCacheEntry(key: string): Promise<unknown | null> {
+  if (!isImageCacheEnabled()) return null;
+  const file = entryPath(key);
+  try {
+    const entry = JSON.parse(await readFile(file, 'utf8')) as CacheEntry;
+    if (Date.now() - entry.createdAt > CACHE_TTL_MS) {
+      await rm(file, {force: true});
+      return null;
+    }
+    await markRecentlyUsed(file);
+    return entry.value;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Image cache read failed:', err instanceof Error ? err.message : err);
+    }
+    return null;
+  }
+}
+
+export async function writeCacheEntry(key: string, value: unknown): Promise<void> {
+  if (!isImageCacheEnabled()) return;
+  try {
+    await mkdir(CACHE_DIR, {recursive: true});
+    const entry: CacheEntry = {createdAt: Date.now(), value};
+    // Write to a temporary file first so concurrent readers never see a partial entry.
+    const tempFile = `${entryPath(key)}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tempFile, JSON.stringify(entry));
+    await rename(tempFile, entryPath(key));
+    // Entries unused for longer than the TTL are certainly expired; readCacheEntry enforces the exact TTL.
+    await evictByAgeAndSize(CACHE_DIR, file => file.endsWith('.json'), CACHE_TTL_MS, CACHE_MAX_BYTES);
+  } catch (err) {
+    console.warn('Image cache write failed:', err instanceof Error ? err.message : err);
+  }
+}
@@ -0,0 +1,20 @@
+import {ai} from '@/ai/genkit';
+import {gemini20FlashExp} from '@genkit-ai/googleai';
+import type {ImageProvider} from '@/ai/image-providers/types';
+
+export const geminiImageProvider: ImageProvider = {
+  name: 'gemini',
+  async generateImage({prompt}) {
+    const response = await ai.generate({
+      model: gemini20FlashExp,
+      prompt,
+      config: {
+        responseModalities: ['TEXT', 'IMAGE'],
+      },
+    });
+    if (!response.media?.url) {
+      throw new Error('The model did not return an image.');
+    }
+    return response.media.url;
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Image provider selection for slide generation.
+ *
+ * The provider is chosen per request, falling back to the IMAGE_PROVIDER environment
+ * variable and then to Gemini:
+ * - gemini - Generates images with the Gemini image model.
+ * - stock - Picks bundled images from public/stock-images by topic keyword. Works offline.
+ * - placeholder - Renders deterministic SVG slides. Works offline.
+ */
+
+import {geminiImageProvider} from '@/ai/image-providers/gemini';
+import {placeholderImageProvider} from '@/ai/image-providers/placeholder';
+import {stockImageProvider} from '@/ai/image-providers/stock';
+import {IMAGE_PROVIDER_NAMES, type ImageProvider, type ImageProviderName} from '@/ai/image-providers/types';
+
+export {buildPlaceholderImage} from '@/ai/image-providers/placeholder';
+export {IMAGE_PROVIDER_NAMES} from '@/ai/image-providers/types';
+export type {ImageProvider, ImageProviderName, SlideImageRequest} from '@/ai/image-providers/types';
+
+const DEFAULT_IMAGE_PROVIDER: ImageProviderName = 'gemini';
+
+const imageProviders: Record<ImageProviderName, ImageProvider> = {
+  gemini: geminiImageProvider,
+  stock: stockImageProvider,
+  placeholder: placeholderImageProvider,
+};
+
+function isImageProviderName(value: string): value is ImageProviderName {
+  return (IMAGE_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function getImageProvider(name?: ImageProviderName): ImageProvider {
+  if (name) return imageProviders[name];
+
+  const configured = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+  if (!configured) return imageProviders[DEFAULT_IMAGE_PROVIDER];
+  if (!isImageProviderName(configured)) {
+    throw new Error(
+      `Unknown IMAGE_PROVIDER "${configured}". Expected one of: ${IMAGE_PROVIDER_NAMES.join(', ')}.`
+    );
+  }
+  return imageProviders[configured];
+}
@@ -0,0 +1,24 @@
+import type {ImageProvider} from '@/ai/image-providers/types';
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/** Renders a deterministic SVG slide for the given topic and position. */
+export function buildPlaceholderImage(topic: string, index: number): string {
+  const hue = (index * 47) % 360;
+  const label = topic.length > 48 ? `${topic.slice(0, 45)}...` : topic;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+  <rect width="1280" height="720" fill="hsl(${hue}, 35%, 25%)"/>
+  <text x="640" y="330" fill="#ffffff" font-family="sans-serif" font-size="64" text-anchor="middle">Slide ${index + 1}</text>
+  <text x="640" y="420" fill="#ffffffcc" font-family="sans-serif" font-size="40" text-anchor="middle">${escapeXml(label)}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+export const placeholderImageProvider: ImageProvider = {
+  name: 'placeholder',
+  async generateImage({topic, index}) {
+    return buildPlaceholderImage(topic, index);
+  },
+};
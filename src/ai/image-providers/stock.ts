@@ -0,0 +1,75 @@
+import {readFile, readdir} from 'node:fs/promises';
+import path from 'node:path';
+import type {ImageProvider} from '@/ai/image-providers/types';
+
+// Bundled images live under public/ so Next.js serves them as-is. File names are
+// hyphen-separated keywords, e.g. `nature-environment-forest.svg`; dropping a new
+// file into the folder is all it takes to add a stock image.
+const STOCK_IMAGE_DIR = path.join(process.cwd(), 'public', 'stock-images');
+export const STOCK_IMAGE_URL_PREFIX = '/stock-images';
+const STOCK_IMAGE_EXTENSIONS = new Set(['.svg', '.png', '.jpg', '.jpeg', '.webp']);
+
+let stockImagesPromise: Promise<string[]> | null = null;
+
+function listStockImages(): Promise<string[]> {
+  if (!stockImagesPromise) {
+    stockImagesPromise = readdir(STOCK_IMAGE_DIR)
+      .then(files => files.filter(file => STOCK_IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase())).sort())
+      .catch(err => {
+        stockImagesPromise = null;
+        throw err;
+      });
+  }
+  return stockImagesPromise;
+}
+
+/** Reads a bundled image by the URL stockImageProvider returned for it, or null if there is no such image. */
+export async function readStockImage(url: string): Promise<Buffer | null> {
+  const fileName = url.startsWith(`${STOCK_IMAGE_URL_PREFIX}/`) ? url.slice(STOCK_IMAGE_URL_PREFIX.length + 1) : '';
+  const files = await listStockImages().catch((): string[] => []);
+  return files.includes(fileName) ? readFile(path.join(STOCK_IMAGE_DIR, fileName)) : null;
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2);
+}
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+function scoreImage(file: string, topicWords: Set<string>): number {
+  const keywords = tokenize(path.parse(file).name);
+  return keywords.filter(keyword => topicWords.has(keyword)).length;
+}
+
+export const stockImageProvider: ImageProvider = {
+  name: 'stock',
+  async generateImage({topic, index}) {
+    const files = await listStockImages();
+    if (files.length === 0) {
+      throw new Error(`No stock images found in ${STOCK_IMAGE_DIR}.`);
+    }
+
+    const topicWords = new Set(tokenize(topic));
+    const offset = hashString(topic.toLowerCase());
+    // Best keyword matches first; ties (including no match at all) are broken by a
+    // topic-seeded rotation so the same topic always gets the same images.
+    const ranked = files
+      .map((file, position) => ({
+        file,
+        score: scoreImage(file, topicWords),
+        order: (position + offset) % files.length,
+      }))
+      .sort((a, b) => b.score - a.score || a.order - b.order);
+
+    return `${STOCK_IMAGE_URL_PREFIX}/${ranked[index % ranked.length].file}`;
+  },
+};
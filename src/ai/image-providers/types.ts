@@ -0,0 +1,18 @@
+export const IMAGE_PROVIDER_NAMES = ['gemini', 'stock', 'placeholder'] as const;
+export type ImageProviderName = (typeof IMAGE_PROVIDER_NAMES)[number];
+
+export interface SlideImageRequest {
+  /** The presentation topic, used by providers that pick images by keyword. */
+  topic: string;
+  /** The full image prompt for this slide. */
+  prompt: string;
+  /** Zero-based position of the slide in the presentation. */
+  index: number;
+  slideCount: number;
+}
+
+export interface ImageProvider {
+  name: ImageProviderName;
+  /** Resolves to an image URL or data URI. Rejects if no image could be produced. */
+  generateImage(request: SlideImageRequest): Promise<string>;
+}
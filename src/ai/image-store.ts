@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Content-addressed storage for generated slide images.
+ *
+ * Model and placeholder images arrive as base64 data URIs. Storing them on disk and handing the client a
+ * short URL keeps server action and stream payloads small and lets next/image optimize the slides.
+ *
+ * Reading an image bumps its modification time. After each write, images unused for longer than the TTL are
+ * deleted, then the least recently used ones until the store fits its size budget. Cached presentations whose
+ * images were evicted are treated as cache misses (see isImageAvailable).
+ *
+ * - IMAGE_STORE_DIR - Storage directory. Defaults to .cache/slide-images in the project root.
+ * - IMAGE_STORE_TTL_MS - How long an unused image is kept, in milliseconds. Defaults to 24 hours.
+ * - IMAGE_STORE_MAX_BYTES - Total size budget in bytes. Defaults to 500 MB.
+ * - storeImageDataUri - Persists a data URI and returns the URL it is served from.
+ * - readStoredImage - Loads a stored image for the /api/slide-images route handler.
+ * - readStoredImageByUrl - Loads a stored image by the URL storeImageDataUri returned for it.
+ */
+
+import {createHash} from 'node:crypto';
+import {access, mkdir, readFile, rename, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {evictByAgeAndSize, markRecentlyUsed, readNumberEnv} from '@/ai/file-eviction';
+
+export const STORED_IMAGE_URL_PREFIX = '/api/slide-images/';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+
+const STORE_DIR = process.env.IMAGE_STORE_DIR || path.join(process.cwd(), '.cache', 'slide-images');
+// Unlike the cache, the store cannot be switched off: slides are served from it.
+const STORE_TTL_MS = readNumberEnv('IMAGE_STORE_TTL_MS', DEFAULT_TTL_MS, {allowZero: false});
+const STORE_MAX_BYTES = readNumberEnv('IMAGE_STORE_MAX_BYTES', DEFAULT_MAX_BYTES, {allowZero: false});
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+const EXTENSIONS_BY_CONTENT_TYPE: Record<string, string> = Object.fromEntries(
+  Object.entries(CONTENT_TYPES_BY_EXTENSION).map(([extension, contentType]) => [contentType, extension])
+);
+
+const DATA_URI_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([\s\S]*)$/;
+const STORED_FILE_PATTERN = /^[a-f0-9]{64}\.(png|jpg|webp|gif|svg)$/;
+
+export interface StoredImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export function isDataUri(value: string): boolean {
+  return value.startsWith('data:');
+}
+
+export async function storeImageDataUri(dataUri: string): Promise<string> {
+  const match = DATA_URI_PATTERN.exec(dataUri);
+  if (!match) {
+    throw new Error('Expected a base64-encoded image data URI.');
+  }
+  const [, contentType, base64] = match;
+  const extension = EXTENSIONS_BY_CONTENT_TYPE[contentType.toLowerCase()];
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${contentType}.`);
+  }
+
+  const data = Buffer.from(base64, 'base64');
+  const fileName = `${createHash('sha256').update(data).digest('hex')}.${extension}`;
+  const filePath = path.join(STORE_DIR, fileName);
+  try {
+    await access(filePath);
+  } catch {
+    await mkdir(STORE_DIR, {recursive: true});
+    const tempFile = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tempFile, data);
+    await rename(tempFile, filePath);
+    const isStoredImage = (file: string) => STORED_FILE_PATTERN.test(file);
+    await evictByAgeAndSize(STORE_DIR, isStoredImage, STORE_TTL_MS, STORE_MAX_BYTES).catch(err => {
+      console.warn('Image store eviction failed:', err instanceof Error ? err.message : err);
+    });
+  }
+  return `${STORED_IMAGE_URL_PREFIX}${fileName}`;
+}
+
+/** Whether a URL returned by storeImageDataUri still has its file on disk. Other URLs are assumed to resolve. */
+export async function isImageAvailable(url: string): Promise<boolean> {
+  if (!url.startsWith(STORED_IMAGE_URL_PREFIX)) return true;
+  const fileName = url.slice(STORED_IMAGE_URL_PREFIX.length);
+  if (!STORED_FILE_PATTERN.test(fileName)) return false;
+  try {
+    await access(path.join(STORE_DIR, fileName));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readStoredImageByUrl(url: string): Promise<StoredImage | null> {
+  return url.startsWith(STORED_IMAGE_URL_PREFIX) ? readStoredImage(url.slice(STORED_IMAGE_URL_PREFIX.length)) : null;
+}
+
+/** Returns the stored image, or null if the name is malformed or nothing is stored under it. */
+export async function readStoredImage(fileName: string): Promise<StoredImage | null> {
+  const match = STORED_FILE_PATTERN.exec(fileName);
+  if (!match) return null;
+  try {
+    const filePath = path.join(STORE_DIR, fileName);
+    const data = await readFile(filePath);
+    await markRecentlyUsed(filePath).catch(() => {});
+    return {data, contentType: CONTENT_TYPES_BY_EXTENSION[match[1]]};
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileOverview Narrative planning step that runs before slide images are generated.
+ *
+ * - PresentationOutlineSchema - A structured outline with one narrative beat per slide.
+ * - planPresentationOutline - Asks the model for an outline, falling back to a generic arc if planning fails.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const NARRATIVE_ROLES = ['intro', 'context', 'problem', 'example', 'turning-point', 'resolution', 'conclusion'] as const;
+
+const NarrativeBeatSchema = z.object({
+  role: z.enum(NARRATIVE_ROLES).describe("The beat's role in the narrative arc."),
+  heading: z.string().describe('A short heading for this part of the talk.'),
+  summary: z.string().describe('One or two sentences on what this part of the talk should convey.'),
+  imagePrompt: z
+    .string()
+    .describe('A concrete visual description of an image that illustrates this beat, without any text in the image.'),
+});
+export type NarrativeBeat = z.infer<typeof NarrativeBeatSchema>;
+
+export const PresentationOutlineSchema = z.object({
+  thesis: z.string().describe('The central message the whole talk builds towards.'),
+  beats: z.array(NarrativeBeatSchema).describe('One beat per slide, in presentation order.'),
+});
+export type PresentationOutline = z.infer<typeof PresentationOutlineSchema>;
+
+const PlanPresentationOutlineInputSchema = z.object({
+  topic: z.string(),
+  slideCount: z.number().int(),
+});
+
+const planPresentationOutlinePrompt = ai.definePrompt({
+  name: 'planPresentationOutlinePrompt',
+  input: {schema: PlanPresentationOutlineInputSchema},
+  output: {schema: PresentationOutlineSchema},
+  prompt: `You are planning a short impromptu presentation that will be illustrated by a slideshow of images.
+
+Presentation Topic: {{{topic}}}
+
+Plan a coherent narrative arc with exactly {{slideCount}} beats, one per slide. Each beat should build on the previous one, moving from an intro through a problem or tension to a resolution or conclusion. With fewer slides, merge roles rather than skipping the resolution.
+
+For each beat, give its role, a short heading, a one or two sentence summary, and a concrete description of an image that illustrates it. The images should feel like parts of the same story.`,
+});
+
+function fallbackRole(index: number, slideCount: number): NarrativeBeat['role'] {
+  if (index === 0) return 'intro';
+  if (index === slideCount - 1) return 'conclusion';
+  if (index === 1) return 'problem';
+  return index === slideCount - 2 ? 'resolution' : 'example';
+}
+
+function buildFallbackBeat(topic: string, index: number, slideCount: number): NarrativeBeat {
+  const role = fallbackRole(index, slideCount);
+  return {
+    role,
+    heading: `Slide ${index + 1}`,
+    summary: `The ${role.replace('-', ' ')} of a talk on ${topic}.`,
+    imagePrompt:
+      index === 0
+        ? `An image that represents a key aspect of ${topic}.`
+        : `An image that represents a key aspect of ${topic} that is different from the previous ${index === 1 ? 'image' : `${index} images`}.`,
+  };
+}
+
+export async function planPresentationOutline(topic: string, slideCount: number): Promise<PresentationOutline> {
+  let outline: PresentationOutline | null = null;
+  try {
+    const {output} = await planPresentationOutlinePrompt({topic, slideCount});
+    outline = output;
+  } catch (err) {
+    console.warn('Presentation outline planning failed:', err instanceof Error ? err.message : err);
+  }
+
+  // The model occasionally returns the wrong number of beats; pad or trim so every slide has one.
+  const beats = Array.from(
+    {length: slideCount},
+    (_, index) => outline?.beats[index] ?? buildFallbackBeat(topic, index, slideCount)
+  );
+  return {thesis: outline?.thesis ?? topic, beats};
+}
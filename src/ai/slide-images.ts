@@ -0,0 +1,46 @@
+/**
+ * @fileOverview Turns slide image URLs sent back by the client into data URIs a model can look at.
+ *
+ * Only URLs this app produced are resolved: stored images, bundled stock images and data URIs.
+ * Anything else, and SVG images (which the model cannot read), resolve to null.
+ *
+ * - loadSlideImageForModel - Resolves a slide image URL to a raster data URI, or null.
+ */
+
+import path from 'node:path';
+import {readStockImage} from '@/ai/image-providers/stock';
+import {readStoredImageByUrl} from '@/ai/image-store';
+
+const RASTER_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+function toDataUri(data: Buffer, contentType: string): string {
+  return `data:${contentType};base64,${data.toString('base64')}`;
+}
+
+export async function loadSlideImageForModel(url: string): Promise<string | null> {
+  try {
+    if (url.startsWith('data:')) {
+      return /^data:image\/(png|jpeg|webp|gif);base64,/.test(url) ? url : null;
+    }
+
+    const stored = await readStoredImageByUrl(url);
+    if (stored) {
+      return Object.values(RASTER_CONTENT_TYPES).includes(stored.contentType)
+        ? toDataUri(stored.data, stored.contentType)
+        : null;
+    }
+
+    const contentType = RASTER_CONTENT_TYPES[path.extname(url).toLowerCase()];
+    const stock = contentType ? await readStockImage(url) : null;
+    return stock && contentType ? toDataUri(stock, contentType) : null;
+  } catch (err) {
+    console.warn(`Loading slide image ${url} failed:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * @fileOverview Shared slide generation used by the batch and streaming image flows.
+ *
+ * - GeneratePresentationImagesInputSchema / GeneratePresentationImagesOutputSchema - Schemas shared by both flows.
+ * - SlideChunkSchema - A single slide pushed to the client by the streaming flow.
+ * - generateSlides - Moderates the topic, plans a narrative outline, then generates every slide concurrently
+ *   from it, reporting each slide as soon as it is ready. Complete results are served from the on-disk image cache.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {
+  IMAGE_PROVIDER_NAMES,
+  buildPlaceholderImage,
+  getImageProvider,
+  type ImageProvider,
+} from '@/ai/image-providers';
+import {buildCacheKey, normalizeCacheText, readCacheEntry, writeCacheEntry} from '@/ai/image-cache';
+import {isDataUri, isImageAvailable, storeImageDataUri} from '@/ai/image-store';
+import {TopicRejectionSchema, moderateCustomStyle, moderateTopic} from '@/ai/moderation';
+import {PresentationOutlineSchema, planPresentationOutline, type NarrativeBeat} from '@/ai/outline';
+import {MAX_SLIDE_COUNT, MIN_SLIDE_COUNT, SLIDE_STYLE_PRESETS, SLIDE_STYLES} from '@/lib/presentation';
+
+const MAX_GENERATION_ATTEMPTS = 2;
+
+export const GeneratePresentationImagesInputSchema = z.object({
+  topic: z.string().describe('The topic of the presentation.'),
+  slideCount: z
+    .number()
+    .int()
+    .min(MIN_SLIDE_COUNT)
+    .max(MAX_SLIDE_COUNT)
+    .describe('The number of slides to generate.'),
+  style: z.enum(SLIDE_STYLES).describe('The visual style preset applied to every slide.'),
+  customStyle: z
+    .string()
+    .optional()
+    .describe('A free-text visual style that overrides the preset when provided. Its length is checked by moderation.'),
+  imageProvider: z
+    .enum(IMAGE_PROVIDER_NAMES)
+    .optional()
+    .describe('The image provider to use. Defaults to the IMAGE_PROVIDER environment variable, then Gemini.'),
+  regenerate: z
+    .boolean()
+    .optional()
+    .describe('Skip cached images and generate new ones. The new result replaces the cached entry.'),
+});
+export type GeneratePresentationImagesInput = z.infer<typeof GeneratePresentationImagesInputSchema>;
+
+export const SlideSchema = z.object({
+  imageUrl: z.string().describe('The slide image URL, or a placeholder image URL if generation failed.'),
+  provider: z.enum(IMAGE_PROVIDER_NAMES).describe('The image provider that was asked for this slide.'),
+  status: z
+    .enum(['generated', 'fallback'])
+    .describe('Whether the image was generated by the model or replaced by a placeholder.'),
+  attempts: z.number().int().describe('The number of generation attempts made for this slide.'),
+  error: z.string().optional().describe('The last generation error, if the slide fell back to a placeholder.'),
+  title: z.string().describe('A short title for the slide.'),
+  nudges: z
+    .array(z.string())
+    .describe('Two or three talking-point hints for the speaker. Empty if none could be generated.'),
+});
+export type Slide = z.infer<typeof SlideSchema>;
+
+const GeneratedPresentationSchema = z.object({
+  status: z.literal('generated'),
+  topic: z.string().describe('The topic the slides were generated for, after moderation.'),
+  topicRewritten: z.boolean().describe('Whether moderation changed the submitted topic.'),
+  slides: z.array(SlideSchema).describe('The generated slides, in presentation order.'),
+  outline: PresentationOutlineSchema.describe('The narrative outline the slides were generated from.'),
+  fromCache: z.boolean().describe('Whether the slides were served from the image cache.'),
+});
+export type GeneratedPresentation = z.infer<typeof GeneratedPresentationSchema>;
+
+const CachedPresentationSchema = GeneratedPresentationSchema.pick({slides: true, outline: true});
+type CachedPresentation = z.infer<typeof CachedPresentationSchema>;
+
+export const GeneratePresentationImagesOutputSchema = z.discriminatedUnion('status', [
+  GeneratedPresentationSchema,
+  TopicRejectionSchema,
+]);
+export type GeneratePresentationImagesOutput = z.infer<typeof GeneratePresentationImagesOutputSchema>;
+
+export const SlideChunkSchema = z.object({
+  index: z.number().int().describe('The zero-based position of the slide in the presentation.'),
+  slide: SlideSchema,
+});
+export type SlideChunk = z.infer<typeof SlideChunkSchema>;
+
+function describeStyle(input: GeneratePresentationImagesInput): string {
+  const customStyle = input.customStyle?.trim();
+  return customStyle || SLIDE_STYLE_PRESETS[input.style].prompt;
+}
+
+function buildSlidePrompt(
+  input: GeneratePresentationImagesInput,
+  beat: NarrativeBeat,
+  index: number
+): string {
+  return `Generate image ${index + 1} of ${input.slideCount} for a presentation on: ${input.topic}. This slide is the ${beat.role.replace('-', ' ')} of the talk ("${beat.heading}": ${beat.summary}). The image should show: ${beat.imagePrompt} Render it as ${describeStyle(input)}, in the same visual style as the other slides.`;
+}
+
+const SlideCaptionInputSchema = z.object({
+  topic: z.string(),
+  heading: z.string(),
+  summary: z.string(),
+  imagePrompt: z.string(),
+  slideNumber: z.number().int(),
+  slideCount: z.number().int(),
+});
+
+const SlideCaptionOutputSchema = z.object({
+  title: z.string().describe('A short slide title of at most six words.'),
+  nudges: z
+    .array(z.string())
+    .min(2)
+    .max(3)
+    .describe('Two or three short talking-point hints, each under fifteen words.'),
+});
+type SlideCaption = z.infer<typeof SlideCaptionOutputSchema>;
+
+const slideCaptionPrompt = ai.definePrompt({
+  name: 'slideCaptionPrompt',
+  input: {schema: SlideCaptionInputSchema},
+  output: {schema: SlideCaptionOutputSchema},
+  prompt: `You are helping a speaker who is giving an impromptu presentation and sees each slide for the first time as it appears.
+
+Presentation Topic: {{{topic}}}
+
+Slide {{slideNumber}} of {{slideCount}} covers "{{{heading}}}": {{{summary}}}
+
+It shows an image generated from this description: {{{imagePrompt}}}
+
+Write a short title for the slide and two or three brief talking-point hints ("prompt nudges") the speaker could use to connect the image to the topic. Hints should suggest angles to talk about, not full sentences to read out.`,
+});
+
+async function generateSlideCaption(
+  topic: string,
+  beat: NarrativeBeat,
+  index: number,
+  slideCount: number
+): Promise<SlideCaption> {
+  try {
+    const {output} = await slideCaptionPrompt({
+      topic,
+      heading: beat.heading,
+      summary: beat.summary,
+      imagePrompt: beat.imagePrompt,
+      slideNumber: index + 1,
+      slideCount,
+    });
+    if (output) return output;
+  } catch (err) {
+    console.warn(`Slide ${index + 1} caption generation failed:`, err instanceof Error ? err.message : err);
+  }
+  return {title: beat.heading, nudges: []};
+}
+
+// Data URIs are stored and replaced by short URLs; providers that already return URLs pass through.
+// If the store is unavailable the data URI is returned as-is rather than failing the slide.
+async function persistImage(imageUrl: string): Promise<string> {
+  if (!isDataUri(imageUrl)) return imageUrl;
+  try {
+    return await storeImageDataUri(imageUrl);
+  } catch (err) {
+    console.warn('Storing slide image failed:', err instanceof Error ? err.message : err);
+    return imageUrl;
+  }
+}
+
+async function generateSlideImage(
+  provider: ImageProvider,
+  topic: string,
+  prompt: string,
+  index: number,
+  slideCount: number
+): Promise<Omit<Slide, 'title' | 'nudges'>> {
+  let lastError = 'Unknown error.';
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    try {
+      const imageUrl = await persistImage(await provider.generateImage({topic, prompt, index, slideCount}));
+      return {imageUrl, provider: provider.name, status: 'generated', attempts: attempt};
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+      console.warn(`Slide ${index + 1} image generation attempt ${attempt} failed:`, lastError);
+    }
+  }
+  return {
+    imageUrl: await persistImage(buildPlaceholderImage(topic, index)),
+    provider: provider.name,
+    status: 'fallback',
+    attempts: MAX_GENERATION_ATTEMPTS,
+    error: lastError,
+  };
+}
+
+async function generateSlide(
+  provider: ImageProvider,
+  input: GeneratePresentationImagesInput,
+  beat: NarrativeBeat,
+  index: number
+): Promise<Slide> {
+  const prompt = buildSlidePrompt(input, beat, index);
+  const [image, caption] = await Promise.all([
+    generateSlideImage(provider, input.topic, prompt, index, input.slideCount),
+    generateSlideCaption(input.topic, beat, index, input.slideCount),
+  ]);
+  return {...image, ...caption};
+}
+
+function buildSlidesCacheKey(input: GeneratePresentationImagesInput, provider: ImageProvider): string {
+  const customStyle = input.customStyle?.trim();
+  return buildCacheKey({
+    topic: normalizeCacheText(input.topic),
+    style: customStyle ? `custom:${normalizeCacheText(customStyle)}` : input.style,
+    slideCount: input.slideCount,
+    provider: provider.name,
+  });
+}
+
+async function readCachedSlides(cacheKey: string): Promise<CachedPresentation | null> {
+  const cached = CachedPresentationSchema.safeParse(await readCacheEntry(cacheKey));
+  if (!cached.success) return null;
+  // The image store may have been cleared independently of the cache.
+  const available = await Promise.all(cached.data.slides.map(slide => isImageAvailable(slide.imageUrl)));
+  return available.every(Boolean) ? cached.data : null;
+}
+
+export async function generateSlides(
+  input: GeneratePresentationImagesInput,
+  onSlide?: (chunk: SlideChunk) => void
+): Promise<GeneratePresentationImagesOutput> {
+  const customStyle = input.customStyle?.trim();
+  // The custom style goes into every image prompt, so it passes the same gate as the topic.
+  const [moderation, styleModeration] = await Promise.all([
+    moderateTopic(input.topic),
+    customStyle ? moderateCustomStyle(customStyle) : null,
+  ]);
+  if (moderation.status === 'rejected') {
+    return moderation;
+  }
+  if (styleModeration?.status === 'rejected') {
+    return styleModeration;
+  }
+  const presentation = await generateModeratedSlides(
+    {...input, topic: moderation.topic, customStyle: styleModeration?.customStyle},
+    onSlide
+  );
+  return {status: 'generated', topic: moderation.topic, topicRewritten: moderation.rewritten, ...presentation};
+}
+
+async function generateModeratedSlides(
+  input: GeneratePresentationImagesInput,
+  onSlide?: (chunk: SlideChunk) => void
+): Promise<CachedPresentation & {fromCache: boolean}> {
+  const provider = getImageProvider(input.imageProvider);
+  const cacheKey = buildSlidesCacheKey(input, provider);
+  if (!input.regenerate) {
+    const cached = await readCachedSlides(cacheKey);
+    if (cached) {
+      cached.slides.forEach((slide, index) => onSlide?.({index, slide}));
+      return {...cached, fromCache: true};
+    }
+  }
+
+  const outline = await planPresentationOutline(input.topic, input.slideCount);
+  const slides = await Promise.all(
+    outline.beats.map(async (beat, index) => {
+      const slide = await generateSlide(provider, input, beat, index);
+      onSlide?.({index, slide});
+      return slide;
+    })
+  );
+
+  // Partial failures are not cached, so the next request gets another chance at the missing images.
+  if (slides.every(slide => slide.status === 'generated')) {
+    const entry: CachedPresentation = {slides, outline};
+    await writeCacheEntry(cacheKey, entry);
+  }
+
+  return {slides, outline, fromCache: false};
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileOverview Timestamped transcription of a presentation recording.
+ *
+ * - TranscriptSchema - A transcript split into timed segments, optionally with word-level timings.
+ * - transcribePresentation - Transcribes an audio data URI, or returns null if transcription fails.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const TranscriptWordSchema = z.object({
+  word: z.string(),
+  startSeconds: z.number().describe('When the word starts, in seconds from the start of the recording.'),
+  endSeconds: z.number().describe('When the word ends, in seconds from the start of the recording.'),
+});
+
+const TranscriptSegmentSchema = z.object({
+  startSeconds: z.number().describe('When the segment starts, in seconds from the start of the recording.'),
+  endSeconds: z.number().describe('When the segment ends, in seconds from the start of the recording.'),
+  text: z.string().describe('What the speaker said, verbatim, including filler words such as "um" and "uh".'),
+  words: z.array(TranscriptWordSchema).optional().describe('Word-level timings, if available.'),
+});
+export type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
+
+export const TranscriptSchema = z.object({
+  text: z.string().describe('The full transcript as plain text.'),
+  segments: z.array(TranscriptSegmentSchema).describe('The transcript split into sentence-sized segments, in order.'),
+});
+export type Transcript = z.infer<typeof TranscriptSchema>;
+
+const transcribePresentationPrompt = ai.definePrompt({
+  name: 'transcribePresentationPrompt',
+  input: {schema: z.object({audioDataUri: z.string()})},
+  output: {schema: TranscriptSchema},
+  prompt: `Transcribe this presentation recording verbatim.
+
+Presentation Audio: {{media url=audioDataUri}}
+
+Split the transcript into sentence-sized segments with start and end times in seconds from the start of the recording. Where you can, include word-level timings for each segment. Keep filler words ("um", "uh", "like", "you know"), false starts and repetitions exactly as spoken; do not clean up the speech. If the recording contains no speech, return an empty transcript.`,
+});
+
+export async function transcribePresentation(audioDataUri: string): Promise<Transcript | null> {
+  try {
+    const {output} = await transcribePresentationPrompt({audioDataUri});
+    if (!output) return null;
+    const segments = [...output.segments].sort((a, b) => a.startSeconds - b.startSeconds);
+    return {text: output.text || segments.map(segment => segment.text).join(' '), segments};
+  } catch (err) {
+    console.warn('Presentation transcription failed:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
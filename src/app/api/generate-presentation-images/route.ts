@@ -0,0 +1,4 @@
+import {appRoute} from '@genkit-ai/next';
+import {streamPresentationImagesFlow} from '@/ai/flows/stream-presentation-images';
+
+export const POST = appRoute(streamPresentationImagesFlow);
@@ -0,0 +1,4 @@
+import {appRoute} from '@genkit-ai/next';
+import {streamPresentationFeedbackFlow} from '@/ai/flows/stream-presentation-feedback';
+
+export const POST = appRoute(streamPresentationFeedbackFlow);
@@ -0,0 +1,21 @@
+import {readStoredImage} from '@/ai/image-store';
+
+export async function GET(_request: Request, {params}: {params: Promise<{file: string}>}) {
+  const {file} = await params;
+  const image = await readStoredImage(file);
+  if (!image) {
+    return new Response('Not found', {status: 404});
+  }
+
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      'Content-Type': image.contentType,
+      'Content-Length': String(image.data.length),
+      // File names are content hashes, so a URL always points at the same bytes.
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      // SVG placeholders are served from our own origin; never let them run scripts.
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    },
+  });
+}
@@ -2,254 +2,493 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import Image from 'next/image';
-import { generatePresentationImages } from '@/ai/flows/generate-presentation-images';
-import type { ProvidePresentationFeedbackOutput } from '@/ai/flows/provide-presentation-feedback';
-import { providePresentationFeedback } from '@/ai/flows/provide-presentation-feedback';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { Slide } from '@/ai/flows/generate-presentation-images';
+import type { PresentationOutline } from '@/ai/outline';
+import type { TopicRejection } from '@/ai/moderation';
+import type { streamPresentationImagesFlow } from '@/ai/flows/stream-presentation-images';
+import type { FeedbackPreview, ProvidePresentationFeedbackOutput } from '@/ai/flows/provide-presentation-feedback';
+import type { streamPresentationFeedbackFlow } from '@/ai/flows/stream-presentation-feedback';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CoachingChat } from "@/components/coaching-chat";
+import { DeliveryMetricsCard } from "@/components/delivery-metrics-card";
+import { ExemplarComparisonCard } from "@/components/exemplar-comparison-card";
+import { RecordingPlayer, type RecordingPlayerHandle } from "@/components/recording-player";
+import { SlideFeedbackCard } from "@/components/slide-feedback-card";
+import { TranscriptCard } from "@/components/transcript-card";
+import { usePresentationSession } from "@/hooks/use-presentation-session";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, AlertCircle, Mic, StopCircle, Lightbulb, Clock, Target, Award, Play, RotateCcw, Eye, MicOff } from 'lucide-react';
+import { cn, formatTimestamp } from "@/lib/utils";
+import {
+  DEFAULT_SLIDE_COUNT,
+  DEFAULT_SLIDE_STYLE,
+  MAX_CUSTOM_STYLE_LENGTH,
+  MAX_SLIDE_LIMIT_SECONDS,
+  MAX_SLIDE_COUNT,
+  MAX_TOPIC_LENGTH,
+  MIN_SLIDE_COUNT,
+  SLIDE_STYLE_PRESETS,
+  SLIDE_STYLES,
+  clampSlideCount,
+  type SlideStyle,
+} from "@/lib/presentation";
+import {
+  getSlideElapsedMs,
+  getTalkElapsedMs,
+  getSlideTimeLimitMs,
+  getTalkTargetSeconds,
+  getTimeOnSlideMs,
+  type RecordingResult,
+  type SessionTiming,
+  type SlideAdvance,
+} from "@/lib/presentation-session";
+import { BUILT_IN_RUBRICS, DEFAULT_RUBRIC_ID, findBuiltInRubric, parseRubricJson } from "@/lib/rubrics";
+import {
+  CUSTOM_TIMING_PROFILE_ID,
+  DEFAULT_TIMING_PROFILE,
+  MAX_COUNTDOWN_SECONDS,
+  MAX_TALK_BUDGET_SECONDS,
+  MIN_TALK_BUDGET_SECONDS,
+  TIMING_PRESETS,
+  TimingProfileSchema,
+  findTimingPreset,
+  type TimingProfile,
+} from "@/lib/timing-profiles";
+import {
+  TimingLightsSchema,
+  checkTimingWindow,
+  defaultTimingLights,
+  getTimingLight,
+  type OvertimeWarning,
+  type TimingLight,
+  type TimingLights,
+  type TimingWindowResult,
+} from "@/lib/timing-lights";
+import { Loader2, AlertCircle, Mic, StopCircle, Lightbulb, Clock, Target, Award, Play, Pause, SkipBack, SkipForward, RotateCcw, Eye, MicOff, Route, ClipboardCheck, Timer } from 'lucide-react';
 
-type AppStage = "idle" | "generatingImages" | "countdown" | "slideshow" | "fetchingFeedback" | "showFeedback";
+// Presentation clickers send PageDown and PageUp, so they move between slides alongside the usual keys.
+const NEXT_SLIDE_KEYS = ["ArrowRight", "ArrowDown", " ", "PageDown"];
+const PREVIOUS_SLIDE_KEYS = ["ArrowLeft", "ArrowUp", "PageUp"];
 
-const SLIDE_DURATION_MS = 15000; // 15 seconds
-const COUNTDOWN_START = 3;
+const CUSTOM_RUBRIC_ID = "custom";
+
+const CRITERION_ICONS: Record<string, React.ReactNode> = {
+  clarity: <Lightbulb className="text-accent"/>,
+  pacing: <Clock className="text-accent"/>,
+  contentRelevance: <Target className="text-accent"/>,
+  narrativeArc: <Route className="text-accent"/>,
+};
+
+const TOPIC_REJECTION_TITLES: Record<TopicRejection["field"], Record<TopicRejection["reason"], string>> = {
+  topic: {
+    "empty": "Missing topic",
+    "too-long": "Topic too long",
+    "unsafe": "Topic not allowed",
+    "prompt-injection": "Topic not understood",
+  },
+  customStyle: {
+    "empty": "Missing visual style",
+    "too-long": "Visual style too long",
+    "unsafe": "Visual style not allowed",
+    "prompt-injection": "Visual style not understood",
+  },
+};
+
+// A blank limit means there is none; anything else must be a whole number of seconds in range.
+function parseSlideLimitSeconds(value: string): number | null | undefined {
+  if (!value.trim()) return undefined;
+  const seconds = Number(value);
+  return Number.isInteger(seconds) && seconds >= 1 && seconds <= MAX_SLIDE_LIMIT_SECONDS ? seconds : null;
+}
+
+const TIMING_LIGHT_STYLES: Record<TimingLight, { className: string; label: string }> = {
+  green: { className: "bg-green-500", label: "Green" },
+  yellow: { className: "bg-yellow-400", label: "Yellow" },
+  red: { className: "bg-red-600", label: "Red" },
+};
+
+const OVERTIME_WARNING_LABELS: Record<OvertimeWarning, string> = {
+  none: "No overtime warning",
+  flash: "Flash when time is up",
+  sound: "Beep when time is up",
+};
+
+// A short tone for the overtime warning, synthesized so no audio file has to ship with the app.
+function playOvertimeBeep() {
+  const audioContext = new AudioContext();
+  const oscillator = audioContext.createOscillator();
+  oscillator.frequency.value = 880;
+  oscillator.connect(audioContext.destination);
+  oscillator.onended = () => void audioContext.close();
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + 0.3);
+}
+
+// Blank timing fields become NaN so the profile schema reports them as missing rather than as zero.
+function readSeconds(value: string): number {
+  return value.trim() ? Number(value) : NaN;
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
 
 export default function ImpromptuPresenterPage() {
   const [topic, setTopic] = useState("");
-  const [images, setImages] = useState<string[]>([]);
-  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
-  const [countdownValue, setCountdownValue] = useState(COUNTDOWN_START);
+  const [slideCount, setSlideCount] = useState(DEFAULT_SLIDE_COUNT);
+  const [slideStyle, setSlideStyle] = useState<SlideStyle>(DEFAULT_SLIDE_STYLE);
+  const [customStyle, setCustomStyle] = useState("");
+  const [regenerateImages, setRegenerateImages] = useState(false);
+  const [rubricId, setRubricId] = useState(DEFAULT_RUBRIC_ID);
+  const [customRubricJson, setCustomRubricJson] = useState("");
+  const [timingProfileId, setTimingProfileId] = useState(DEFAULT_TIMING_PROFILE.id);
+  const [countdownSeconds, setCountdownSeconds] = useState(String(DEFAULT_TIMING_PROFILE.countdownSeconds));
+  const [slideDurationSeconds, setSlideDurationSeconds] = useState(String(DEFAULT_TIMING_PROFILE.slideDurationSeconds));
+  const [talkBudgetSeconds, setTalkBudgetSeconds] = useState(String(DEFAULT_TIMING_PROFILE.talkBudgetSeconds));
+  const [advanceMode, setAdvanceMode] = useState<SlideAdvance["mode"]>("auto");
+  const [showTimingLights, setShowTimingLights] = useState(false);
+  const [greenSeconds, setGreenSeconds] = useState("");
+  const [yellowSeconds, setYellowSeconds] = useState("");
+  const [redSeconds, setRedSeconds] = useState("");
+  const [overtimeWarning, setOvertimeWarning] = useState<OvertimeWarning>("flash");
+  const [minSlideSeconds, setMinSlideSeconds] = useState("");
+  const [maxSlideSeconds, setMaxSlideSeconds] = useState("");
+  // Slides stream in out of order; a null entry has not arrived yet.
+  const [slides, setSlides] = useState<(Slide | null)[]>([]);
+  const [showSpeakerHints, setShowSpeakerHints] = useState(false);
+  const [outline, setOutline] = useState<PresentationOutline | null>(null);
   const [feedback, setFeedback] = useState<ProvidePresentationFeedbackOutput | null>(null);
-  const [stage, setStage] = useState<AppStage>("idle");
+  const [feedbackPreview, setFeedbackPreview] = useState<FeedbackPreview | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [slideProgress, setSlideProgress] = useState(0);
-  const [audioUnavailable, setAudioUnavailable] = useState(false);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [slideElapsedMs, setSlideElapsedMs] = useState(0);
+  const [timeOnSlideMs, setTimeOnSlideMs] = useState(0);
+  const [talkElapsedMs, setTalkElapsedMs] = useState(0);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const slideshowTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const countdownTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const slideProgressTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const recordingPlayerRef = useRef<RecordingPlayerHandle | null>(null);
 
   const { toast } = useToast();
 
+  const handleRecordingComplete = async ({ audio, microphone, durationSeconds, slideTimings }: RecordingResult) => {
+    const { lights } = sessionState.timing;
+    // Recorded even when no feedback could be generated, since it only depends on the clock.
+    const timingWindow = lights ? checkTimingWindow(lights, durationSeconds) : undefined;
+    const settle = (result: ProvidePresentationFeedbackOutput) => {
+      setFeedback(timingWindow ? { ...result, timingWindow } : result);
+      session.send({ type: "FEEDBACK_SETTLED" });
+    };
+
+    if (microphone !== "recording") {
+      toast({
+        title: "No Audio Input",
+        description: "Microphone was unavailable or permission denied. Presentation feedback is skipped.",
+        variant: "default",
+      });
+      settle({ overallFeedback: "Presentation completed. Audio feedback skipped as microphone was not available or permission was denied." });
+      return;
+    }
+    if (!audio) {
+      toast({ title: "Warning", description: "No audio was captured during recording. Feedback may be limited or unavailable.", variant: "default" });
+      settle({ overallFeedback: "No audio was captured during the recording." });
+      return;
+    }
+
+    setRecordingUrl(URL.createObjectURL(audio));
+    const shownSlides = slides.slice(0, slideTimings.length).map((slide, index) => ({
+      imageUrl: slide?.imageUrl ?? "",
+      title: slide?.title ?? `Slide ${index + 1}`,
+    }));
+    let base64Audio: string;
+    try {
+      base64Audio = await readAsDataUrl(audio);
+    } catch (err) {
+      console.error("FileReader error:", err);
+      toast({ title: "Error", description: "Failed to process recorded audio.", variant: "destructive" });
+      settle({ overallFeedback: "Error processing audio." });
+      return;
+    }
+    try {
+      const { stream, output } = streamFlow<typeof streamPresentationFeedbackFlow>({
+        url: "/api/provide-presentation-feedback",
+        input: {
+          audioDataUri: base64Audio,
+          topic,
+          outline: outline ?? undefined,
+          recordingDurationSeconds: durationSeconds,
+          slideTimings,
+          speakerAdvancedSlides: sessionState.timing.advance.mode === "manual",
+          targetDurationSeconds: getTalkTargetSeconds(
+            sessionState.timing.profile,
+            sessionState.timing.advance.mode,
+            sessionState.slideCount
+          ),
+          timingLights: lights ?? undefined,
+          slides: shownSlides,
+          rubric: selectedRubric,
+        },
+      });
+      for await (const preview of stream) {
+        setFeedbackPreview(preview);
+      }
+      settle(await output);
+    } catch (err) {
+      console.error("Feedback generation error:", err);
+      const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during feedback generation.";
+      toast({ title: "Error", description: `Feedback generation failed: ${errorMessage}`, variant: "destructive" });
+      settle({ overallFeedback: "Error fetching feedback." });
+    }
+  };
+
+  const [sessionState, session] = usePresentationSession({
+    timing: { profile: DEFAULT_TIMING_PROFILE, advance: { mode: "auto" }, lights: null },
+    onRecordingComplete: handleRecordingComplete,
+  });
+  const { stage, currentSlideIndex, countdownValue, slidesFailed, microphone } = sessionState;
+  const isPaused = sessionState.pausedAt !== null;
+  const slideAdvance = sessionState.timing.advance;
+  const slideTimeLimitMs = getSlideTimeLimitMs(sessionState.timing);
+  const timingLights = sessionState.timing.lights;
+  const talkTargetSeconds = getTalkTargetSeconds(sessionState.timing.profile, slideAdvance.mode, sessionState.slideCount);
+  // Validation errors are the page's own; generation errors come from the session.
+  const displayedError = error ?? sessionState.error;
+
+  const applyTimingProfile = (profile: TimingProfile) => {
+    setTimingProfileId(profile.id);
+    setCountdownSeconds(String(profile.countdownSeconds));
+    setSlideDurationSeconds(String(profile.slideDurationSeconds));
+    setTalkBudgetSeconds(String(profile.talkBudgetSeconds));
+  };
+
+  // Changing any value by hand turns the chosen preset into a custom profile.
+  const editTimingField = (setValue: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setValue(e.target.value);
+    setTimingProfileId(CUSTOM_TIMING_PROFILE_ID);
+  };
+
   const resetState = useCallback(() => {
     setTopic("");
-    setImages([]);
-    setCurrentSlideIndex(0);
-    setCountdownValue(COUNTDOWN_START);
+    setSlideCount(DEFAULT_SLIDE_COUNT);
+    setSlideStyle(DEFAULT_SLIDE_STYLE);
+    setCustomStyle("");
+    setRegenerateImages(false);
+    setRubricId(DEFAULT_RUBRIC_ID);
+    setCustomRubricJson("");
+    setTimingProfileId(DEFAULT_TIMING_PROFILE.id);
+    setCountdownSeconds(String(DEFAULT_TIMING_PROFILE.countdownSeconds));
+    setSlideDurationSeconds(String(DEFAULT_TIMING_PROFILE.slideDurationSeconds));
+    setTalkBudgetSeconds(String(DEFAULT_TIMING_PROFILE.talkBudgetSeconds));
+    setAdvanceMode("auto");
+    setMinSlideSeconds("");
+    setMaxSlideSeconds("");
+    setShowTimingLights(false);
+    setGreenSeconds("");
+    setYellowSeconds("");
+    setRedSeconds("");
+    setOvertimeWarning("flash");
+    setSlides([]);
+    setShowSpeakerHints(false);
+    setOutline(null);
     setFeedback(null);
+    setFeedbackPreview(null);
     setError(null);
-    setStage("idle");
-    setAudioUnavailable(false);
-    audioChunksRef.current = [];
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-      mediaRecorderRef.current.stop();
-    }
-    mediaRecorderRef.current = null;
-    if (slideshowTimerRef.current) clearTimeout(slideshowTimerRef.current);
-    if (countdownTimerRef.current) clearTimeout(countdownTimerRef.current);
-    if (slideProgressTimerRef.current) clearInterval(slideProgressTimerRef.current);
-    setSlideProgress(0);
-  }, []);
+    setRecordingUrl(null);
+    setSlideElapsedMs(0);
+    setTimeOnSlideMs(0);
+    setTalkElapsedMs(0);
+    session.send({ type: "RESET" });
+  }, [session]);
+
+  const customRubric = rubricId === CUSTOM_RUBRIC_ID ? parseRubricJson(customRubricJson) : null;
+  const selectedRubric = customRubric ? (customRubric.success ? customRubric.rubric : undefined) : findBuiltInRubric(rubricId);
 
   const handleTopicSubmit = async () => {
     if (!topic.trim()) {
       setError("Please enter a topic.");
       return;
     }
+    if (customRubric && !customRubric.success) {
+      setError(`The custom rubric is invalid. ${customRubric.error}`);
+      return;
+    }
+    const timingProfile = TimingProfileSchema.safeParse({
+      ...(findTimingPreset(timingProfileId) ?? { id: CUSTOM_TIMING_PROFILE_ID, name: "Custom" }),
+      countdownSeconds: readSeconds(countdownSeconds),
+      slideDurationSeconds: readSeconds(slideDurationSeconds),
+      talkBudgetSeconds: readSeconds(talkBudgetSeconds),
+    });
+    if (!timingProfile.success) {
+      setError(timingProfile.error.issues[0].message);
+      return;
+    }
+    let advance: SlideAdvance = { mode: "auto" };
+    if (advanceMode === "manual") {
+      const minSeconds = parseSlideLimitSeconds(minSlideSeconds);
+      const maxSeconds = parseSlideLimitSeconds(maxSlideSeconds);
+      if (minSeconds === null || maxSeconds === null) {
+        setError(`Slide time limits must be whole seconds between 1 and ${MAX_SLIDE_LIMIT_SECONDS}.`);
+        return;
+      }
+      if (minSeconds !== undefined && maxSeconds !== undefined && minSeconds > maxSeconds) {
+        setError("The minimum time per slide cannot be longer than the maximum.");
+        return;
+      }
+      advance = {
+        mode: "manual",
+        minSlideMs: minSeconds !== undefined ? minSeconds * 1000 : undefined,
+        maxSlideMs: maxSeconds !== undefined ? maxSeconds * 1000 : undefined,
+      };
+    }
+    let lights: TimingLights | null = null;
+    if (showTimingLights) {
+      const parsedLights = TimingLightsSchema.safeParse({
+        greenSeconds: readSeconds(greenSeconds),
+        yellowSeconds: readSeconds(yellowSeconds),
+        redSeconds: readSeconds(redSeconds),
+        overtimeWarning,
+      });
+      if (!parsedLights.success) {
+        setError(parsedLights.error.issues[0].message);
+        return;
+      }
+      lights = parsedLights.data;
+    }
+    const timing: SessionTiming = { profile: timingProfile.data, advance, lights };
     setError(null);
-    setAudioUnavailable(false); // Reset audio unavailability status
-    setStage("generatingImages");
+    setSlides(Array<Slide | null>(slideCount).fill(null));
+    setOutline(null);
+    if (!session.send({ type: "START", slideCount, timing })) return;
     try {
-      const result = await generatePresentationImages({ topic });
-      if (result && result.image1 && result.image2 && result.image3) {
-        setImages([result.image1, result.image2, result.image3]);
-        setStage("countdown");
+      const { stream, output } = streamFlow<typeof streamPresentationImagesFlow>({
+        url: "/api/generate-presentation-images",
+        input: {
+          topic,
+          slideCount,
+          style: slideStyle,
+          customStyle: customStyle.trim() || undefined,
+          regenerate: regenerateImages,
+        },
+      });
+      for await (const chunk of stream) {
+        // A rejected chunk means the session was reset while the slides were still streaming in.
+        if (!session.send({ type: "SLIDE_READY", index: chunk.index })) return;
+        setSlides(prevSlides => prevSlides.map((slide, index) => index === chunk.index ? chunk.slide : slide));
+      }
+      const result = await output;
+      if (result?.status === "rejected") {
+        session.send({ type: "GENERATION_FAILED", error: `${TOPIC_REJECTION_TITLES[result.field][result.reason]}: ${result.message}` });
+        return;
+      }
+      if (result && result.slides.length === slideCount && result.slides.every(slide => slide.imageUrl)) {
+        setSlides(result.slides);
+        setOutline(result.outline);
+        if (result.topicRewritten) {
+          setTopic(result.topic);
+          toast({ title: "Topic Adjusted", description: `Your topic was adjusted to: "${result.topic}"`, variant: "default" });
+        }
+        session.send({ type: "GENERATION_COMPLETE" });
+        const fallbackCount = result.slides.filter(slide => slide.status === "fallback").length;
+        if (result.fromCache) {
+          toast({
+            title: "Reusing Images",
+            description: "These images were generated earlier for the same topic and settings. Tick \"Generate fresh images\" to get new ones.",
+            variant: "default"
+          });
+        } else if (fallbackCount > 0) {
+          toast({
+            title: "Some Images Unavailable",
+            description: `${fallbackCount} of ${result.slides.length} ${result.slides.length === 1 ? "image" : "images"} could not be generated. Placeholder slides will be shown instead.`,
+            variant: "default"
+          });
+        }
       } else {
         throw new Error("Failed to generate images or received invalid response.");
       }
     } catch (err) {
       console.error("Image generation error:", err);
       const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during image generation.";
-      setError(`Failed to generate images: ${errorMessage}`);
-      setStage("idle");
-      toast({ title: "Error", description: `Image generation failed: ${errorMessage}`, variant: "destructive" });
+      const failedStage = session.getState().stage;
+      if (!session.send({ type: "GENERATION_FAILED", error: `Failed to generate images: ${errorMessage}` })) return;
+      if (failedStage === "generatingImages") {
+        toast({ title: "Error", description: `Image generation failed: ${errorMessage}`, variant: "destructive" });
+      } else {
+        toast({ title: "Error", description: `Some slides could not be loaded: ${errorMessage}`, variant: "destructive" });
+      }
     }
   };
 
-  const startRecording = async (): Promise<boolean> => {
-    audioChunksRef.current = [];
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-        mediaRecorderRef.current.stop();
-    }
-    mediaRecorderRef.current = null;
+  useEffect(() => {
+    // Release the previous recording once it is replaced or the session is reset.
+    return () => { if (recordingUrl) URL.revokeObjectURL(recordingUrl); };
+  }, [recordingUrl]);
 
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream);
-      mediaRecorderRef.current.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
-      mediaRecorderRef.current.onstop = () => { // Basic cleanup
-        stream.getTracks().forEach(track => track.stop());
-      };
-      mediaRecorderRef.current.start();
-      return true;
-    } catch (err) {
-      console.error("Microphone access error:", err);
-      const toastMessage = err instanceof Error && err.name === "NotAllowedError"
+  useEffect(() => {
+    if (microphone !== "permission-denied" && microphone !== "unavailable") return;
+    toast({
+      title: "Microphone Unavailable",
+      description: microphone === "permission-denied"
         ? "Microphone permission denied. Proceeding without audio recording for feedback."
-        : "Could not access microphone. Proceeding without audio recording for feedback.";
-      toast({
-        title: "Microphone Unavailable",
-        description: toastMessage,
-        variant: "default"
-      });
-      return false;
-    }
-  };
-
-  const stopRecordingAndGetFeedback = async () => {
-    if (audioUnavailable) {
-      toast({
-        title: "No Audio Input",
-        description: "Microphone was unavailable or permission denied. Presentation feedback is skipped.",
-        variant: "default",
-      });
-      setFeedback({
-        clarityFeedback: "N/A (microphone unavailable or permission denied)",
-        pacingFeedback: "N/A (microphone unavailable or permission denied)",
-        contentRelevanceFeedback: "N/A (microphone unavailable or permission denied)",
-        overallFeedback: "Presentation completed. Audio feedback skipped as microphone was not available or permission was denied.",
-      });
-      setStage("showFeedback");
-      return;
-    }
-
-    if (!mediaRecorderRef.current || mediaRecorderRef.current.state !== "recording") {
-      toast({
-        title: "Recording Issue",
-        description: "Audio recording was not active or properly initialized. Feedback skipped.",
-        variant: "default"
-      });
-      setFeedback({
-        clarityFeedback: "N/A (recording issue)",
-        pacingFeedback: "N/A (recording issue)",
-        contentRelevanceFeedback: "N/A (recording issue)",
-        overallFeedback: "Presentation completed. Feedback skipped due to a recording issue.",
-      });
-      setStage("showFeedback");
-      return;
-    }
-    
-    setStage("fetchingFeedback");
-    mediaRecorderRef.current.onstop = async () => {
-      const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-      
-      if (audioBlob.size === 0) {
-        toast({ title: "Warning", description: "No audio was captured during recording. Feedback may be limited or unavailable.", variant: "default" });
-        setFeedback({
-          clarityFeedback: "N/A (no audio captured)",
-          pacingFeedback: "N/A (no audio captured)",
-          contentRelevanceFeedback: "N/A (no audio captured)",
-          overallFeedback: "No audio was captured during the recording.",
-        });
-        setStage("showFeedback");
-        mediaRecorderRef.current?.stream.getTracks().forEach(track => track.stop());
-        return;
-      }
+        : "Could not access microphone. Proceeding without audio recording for feedback.",
+      variant: "default"
+    });
+  }, [microphone, toast]);
 
-      const reader = new FileReader();
-      reader.readAsDataURL(audioBlob);
-      reader.onloadend = async () => {
-        const base64Audio = reader.result as string;
-        try {
-          const feedbackResult = await providePresentationFeedback({ audioDataUri: base64Audio, topic });
-          setFeedback(feedbackResult);
-        } catch (err) {
-          console.error("Feedback generation error:", err);
-          const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during feedback generation.";
-          toast({ title: "Error", description: `Feedback generation failed: ${errorMessage}`, variant: "destructive" });
-          setFeedback({
-              clarityFeedback: "Error fetching feedback.",
-              pacingFeedback: "Error fetching feedback.",
-              contentRelevanceFeedback: "Error fetching feedback.",
-              overallFeedback: "Error fetching feedback.",
-          });
-        } finally {
-          setStage("showFeedback");
-        }
-      };
-      reader.onerror = () => {
-        console.error("FileReader error");
-        toast({ title: "Error", description: "Failed to process recorded audio.", variant: "destructive" });
-        setFeedback({
-            clarityFeedback: "Error processing audio.",
-            pacingFeedback: "Error processing audio.",
-            contentRelevanceFeedback: "Error processing audio.",
-            overallFeedback: "Error processing audio.",
-        });
-        setStage("showFeedback");
-      };
-      // Clean up media stream tracks associated with this specific recorder instance
-      mediaRecorderRef.current?.stream.getTracks().forEach(track => track.stop());
+  useEffect(() => {
+    if (stage !== "slideshow") return;
+    const updateElapsed = () => {
+      const state = session.getState();
+      const now = session.now();
+      setSlideElapsedMs(getSlideElapsedMs(state, now));
+      setTimeOnSlideMs(getTimeOnSlideMs(state, state.currentSlideIndex, now));
+      setTalkElapsedMs(getTalkElapsedMs(state, now));
     };
-    mediaRecorderRef.current.stop();
-  };
+    updateElapsed();
+    if (isPaused) return;
+    const progressInterval = setInterval(updateElapsed, 100);
+    return () => clearInterval(progressInterval);
+  }, [stage, currentSlideIndex, isPaused, session]);
 
   useEffect(() => {
-    if (stage === "countdown" && countdownValue > 0) {
-      countdownTimerRef.current = setTimeout(() => setCountdownValue(countdownValue - 1), 1000);
-    } else if (stage === "countdown" && countdownValue === 0) {
-      (async () => {
-        setError(null); 
-        const recordingSuccessfullyInitiated = await startRecording();
-        setAudioUnavailable(!recordingSuccessfullyInitiated);
-        setStage("slideshow");
-        setCurrentSlideIndex(0);
-      })();
-    }
-    return () => { if (countdownTimerRef.current) clearTimeout(countdownTimerRef.current); };
-  }, [stage, countdownValue]);
+    if (stage !== "slideshow" || slideAdvance.mode !== "manual") return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const type = NEXT_SLIDE_KEYS.includes(event.key)
+        ? "NEXT_SLIDE"
+        : PREVIOUS_SLIDE_KEYS.includes(event.key) ? "PREVIOUS_SLIDE" : null;
+      if (!type) return;
+      // Also keeps Space from pressing whichever button has focus.
+      event.preventDefault();
+      // Holding a key down should not race through the slides.
+      if (event.repeat) return;
+      session.send({ type });
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [stage, slideAdvance.mode, session]);
+
+  const timingLight = stage === "slideshow" && timingLights ? getTimingLight(timingLights, talkElapsedMs / 1000) : null;
+  const overtimeWarningActive = timingLight === "red" && timingLights?.overtimeWarning !== "none";
 
   useEffect(() => {
-    if (stage === "slideshow") {
-      setSlideProgress(0); 
-      
-      let progressIntervalStart = Date.now();
-      if(slideProgressTimerRef.current) clearInterval(slideProgressTimerRef.current);
-      slideProgressTimerRef.current = setInterval(() => {
-        const elapsedTime = Date.now() - progressIntervalStart;
-        const progress = Math.min(100, (elapsedTime / SLIDE_DURATION_MS) * 100);
-        setSlideProgress(progress);
-        if (progress >= 100) {
-          if(slideProgressTimerRef.current) clearInterval(slideProgressTimerRef.current);
-        }
-      }, 100);
-
-      if (slideshowTimerRef.current) clearTimeout(slideshowTimerRef.current);
-      slideshowTimerRef.current = setTimeout(() => {
-        if (currentSlideIndex < images.length - 1) {
-          setCurrentSlideIndex(prevIndex => prevIndex + 1);
-        } else {
-          stopRecordingAndGetFeedback();
-        }
-      }, SLIDE_DURATION_MS);
-    }
-    return () => {
-      if (slideshowTimerRef.current) clearTimeout(slideshowTimerRef.current);
-      if (slideProgressTimerRef.current) clearInterval(slideProgressTimerRef.current);
-    };
-  }, [stage, currentSlideIndex, images.length, audioUnavailable, stopRecordingAndGetFeedback]); 
+    if (overtimeWarningActive && timingLights?.overtimeWarning === "sound") playOvertimeBeep();
+  }, [overtimeWarningActive, timingLights]);
 
+  const remainingMinSlideSeconds = slideAdvance.mode === "manual"
+    ? Math.ceil(Math.max(0, (slideAdvance.minSlideMs ?? 0) - timeOnSlideMs) / 1000)
+    : 0;
 
   const renderContent = () => {
     switch (stage) {
@@ -268,11 +507,291 @@ export default function ImpromptuPresenterPage() {
                     id="topic"
                     type="text"
                     value={topic}
+                    maxLength={MAX_TOPIC_LENGTH}
                     onChange={(e) => setTopic(e.target.value)}
                     placeholder="e.g., The Future of AI"
                     className="text-base"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slideCount">Number of Slides</Label>
+                  <Input
+                    id="slideCount"
+                    type="number"
+                    min={MIN_SLIDE_COUNT}
+                    max={MAX_SLIDE_COUNT}
+                    value={slideCount}
+                    onChange={(e) => setSlideCount(clampSlideCount(e.target.valueAsNumber))}
+                    className="text-base"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slideStyle">Visual Style</Label>
+                  <Select value={slideStyle} onValueChange={(value) => setSlideStyle(value as SlideStyle)}>
+                    <SelectTrigger id="slideStyle" className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SLIDE_STYLES.map((style) => (
+                        <SelectItem key={style} value={style}>{SLIDE_STYLE_PRESETS[style].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id="customStyle"
+                    type="text"
+                    value={customStyle}
+                    maxLength={MAX_CUSTOM_STYLE_LENGTH}
+                    onChange={(e) => setCustomStyle(e.target.value)}
+                    placeholder="Or describe your own, e.g. charcoal sketch"
+                    aria-label="Custom visual style"
+                    className="text-base"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rubric">Feedback Rubric</Label>
+                  <Select value={rubricId} onValueChange={setRubricId}>
+                    <SelectTrigger id="rubric" className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BUILT_IN_RUBRICS.map((rubric) => (
+                        <SelectItem key={rubric.id} value={rubric.id}>{rubric.name}</SelectItem>
+                      ))}
+                      <SelectItem value={CUSTOM_RUBRIC_ID}>Custom rubric (JSON)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {rubricId === CUSTOM_RUBRIC_ID ? (
+                    <>
+                      <Textarea
+                        id="customRubric"
+                        value={customRubricJson}
+                        onChange={(e) => setCustomRubricJson(e.target.value)}
+                        placeholder={JSON.stringify(findBuiltInRubric(DEFAULT_RUBRIC_ID), null, 2)}
+                        aria-label="Custom rubric JSON"
+                        className="min-h-40 font-mono text-sm"
+                      />
+                      {customRubricJson.trim() && customRubric && !customRubric.success && (
+                        <p className="text-sm text-destructive">{customRubric.error}</p>
+                      )}
+                    </>
+                  ) : (
+                    selectedRubric?.description && <p className="text-sm text-muted-foreground">{selectedRubric.description}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="timingProfile">Timing</Label>
+                  <Select
+                    value={timingProfileId}
+                    onValueChange={(id) => {
+                      const preset = findTimingPreset(id);
+                      if (preset) applyTimingProfile(preset);
+                      else setTimingProfileId(id);
+                    }}
+                  >
+                    <SelectTrigger id="timingProfile" className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIMING_PRESETS.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name} ({formatTimestamp(profile.talkBudgetSeconds)} talk)
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={CUSTOM_TIMING_PROFILE_ID}>Custom</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className={cn("grid gap-2", advanceMode === "auto" ? "grid-cols-3" : "grid-cols-2")}>
+                    <div className="space-y-1">
+                      <Label htmlFor="countdownSeconds" className="font-normal">Countdown (s)</Label>
+                      <Input
+                        id="countdownSeconds"
+                        type="number"
+                        min={0}
+                        max={MAX_COUNTDOWN_SECONDS}
+                        value={countdownSeconds}
+                        onChange={editTimingField(setCountdownSeconds)}
+                      />
+                    </div>
+                    {advanceMode === "auto" && (
+                      <div className="space-y-1">
+                        <Label htmlFor="slideDurationSeconds" className="font-normal">Per slide (s)</Label>
+                        <Input
+                          id="slideDurationSeconds"
+                          type="number"
+                          min={1}
+                          max={MAX_SLIDE_LIMIT_SECONDS}
+                          value={slideDurationSeconds}
+                          onChange={editTimingField(setSlideDurationSeconds)}
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-1">
+                      <Label htmlFor="talkBudgetSeconds" className="font-normal">Talk budget (s)</Label>
+                      <Input
+                        id="talkBudgetSeconds"
+                        type="number"
+                        min={MIN_TALK_BUDGET_SECONDS}
+                        max={MAX_TALK_BUDGET_SECONDS}
+                        value={talkBudgetSeconds}
+                        onChange={editTimingField(setTalkBudgetSeconds)}
+                      />
+                    </div>
+                  </div>
+                  {advanceMode === "auto" && Number(slideDurationSeconds) > 0 && Number(talkBudgetSeconds) > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {slideCount} {slideCount === 1 ? "slide" : "slides"} at {slideDurationSeconds}s each run for{" "}
+                      {formatTimestamp(slideCount * Number(slideDurationSeconds))} of your {formatTimestamp(Number(talkBudgetSeconds))} budget.
+                      {slideCount * Number(slideDurationSeconds) < Number(talkBudgetSeconds) &&
+                        " Your pacing is judged against the shorter slideshow."}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between space-x-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="advanceMode">Advance Slides Myself</Label>
+                      <p className="text-sm text-muted-foreground">
+                        {advanceMode === "manual"
+                          ? "Move between slides with the arrow keys, Space or a presentation clicker."
+                          : "Each slide moves on after the time per slide above."}
+                      </p>
+                    </div>
+                    <Switch
+                      id="advanceMode"
+                      checked={advanceMode === "manual"}
+                      onCheckedChange={(checked) => setAdvanceMode(checked ? "manual" : "auto")}
+                    />
+                  </div>
+                  {advanceMode === "manual" && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="minSlideSeconds" className="font-normal">Minimum seconds per slide</Label>
+                        <Input
+                          id="minSlideSeconds"
+                          type="number"
+                          min={1}
+                          max={MAX_SLIDE_LIMIT_SECONDS}
+                          value={minSlideSeconds}
+                          onChange={(e) => setMinSlideSeconds(e.target.value)}
+                          placeholder="None"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="maxSlideSeconds" className="font-normal">Maximum seconds per slide</Label>
+                        <Input
+                          id="maxSlideSeconds"
+                          type="number"
+                          min={1}
+                          max={MAX_SLIDE_LIMIT_SECONDS}
+                          value={maxSlideSeconds}
+                          onChange={(e) => setMaxSlideSeconds(e.target.value)}
+                          placeholder="None"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between space-x-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="timingLights">Timing Lights</Label>
+                      <p className="text-sm text-muted-foreground">Show green, yellow and red lights at set times over the whole talk.</p>
+                    </div>
+                    <Switch
+                      id="timingLights"
+                      checked={showTimingLights}
+                      onCheckedChange={(checked) => {
+                        setShowTimingLights(checked);
+                        if (checked && !greenSeconds && !yellowSeconds && !redSeconds) {
+                          const budgetSeconds = readSeconds(talkBudgetSeconds);
+                          const perSlideSeconds = readSeconds(slideDurationSeconds);
+                          const defaults = defaultTimingLights(
+                            getTalkTargetSeconds(
+                              {
+                                talkBudgetSeconds: Number.isFinite(budgetSeconds)
+                                  ? budgetSeconds
+                                  : DEFAULT_TIMING_PROFILE.talkBudgetSeconds,
+                                slideDurationSeconds: Number.isFinite(perSlideSeconds)
+                                  ? perSlideSeconds
+                                  : DEFAULT_TIMING_PROFILE.slideDurationSeconds,
+                              },
+                              advanceMode,
+                              slideCount
+                            )
+                          );
+                          setGreenSeconds(String(defaults.greenSeconds));
+                          setYellowSeconds(String(defaults.yellowSeconds));
+                          setRedSeconds(String(defaults.redSeconds));
+                        }
+                      }}
+                    />
+                  </div>
+                  {showTimingLights && (
+                    <>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                          <Label htmlFor="greenSeconds" className="font-normal">Green (s)</Label>
+                          <Input
+                            id="greenSeconds"
+                            type="number"
+                            min={1}
+                            max={MAX_TALK_BUDGET_SECONDS}
+                            value={greenSeconds}
+                            onChange={(e) => setGreenSeconds(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="yellowSeconds" className="font-normal">Yellow (s)</Label>
+                          <Input
+                            id="yellowSeconds"
+                            type="number"
+                            min={1}
+                            max={MAX_TALK_BUDGET_SECONDS}
+                            value={yellowSeconds}
+                            onChange={(e) => setYellowSeconds(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="redSeconds" className="font-normal">Red (s)</Label>
+                          <Input
+                            id="redSeconds"
+                            type="number"
+                            min={1}
+                            max={MAX_TALK_BUDGET_SECONDS}
+                            value={redSeconds}
+                            onChange={(e) => setRedSeconds(e.target.value)}
+                          />
+                        </div>
+                      </div>
+                      <Select value={overtimeWarning} onValueChange={(value) => setOvertimeWarning(value as OvertimeWarning)}>
+                        <SelectTrigger aria-label="Overtime warning" className="text-base">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(OVERTIME_WARNING_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="regenerateImages"
+                    checked={regenerateImages}
+                    onCheckedChange={(checked) => setRegenerateImages(checked === true)}
+                  />
+                  <Label htmlFor="regenerateImages" className="font-normal">Generate fresh images (skip saved ones)</Label>
+                </div>
+                <div className="flex items-center justify-between space-x-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="speakerHints">Speaker Hints</Label>
+                    <p className="text-sm text-muted-foreground">Show a title and talking points with each slide.</p>
+                  </div>
+                  <Switch id="speakerHints" checked={showSpeakerHints} onCheckedChange={setShowSpeakerHints} />
+                </div>
                 <Button onClick={handleTopicSubmit} className="w-full" size="lg">
                   <Play className="mr-2 h-5 w-5" /> Start Presentation
                 </Button>
@@ -284,7 +803,7 @@ export default function ImpromptuPresenterPage() {
         return (
           <div className="flex flex-col items-center space-y-4 p-8 rounded-lg bg-card shadow-xl">
             <Loader2 className="h-12 w-12 animate-spin text-primary" />
-            <p className="text-xl text-card-foreground">Generating images for "{topic}"...</p>
+            <p className="text-xl text-card-foreground">Generating {slideCount} {slideCount === 1 ? "image" : "images"} for "{topic}"...</p>
             <p className="text-muted-foreground">This might take a moment.</p>
           </div>
         );
@@ -303,13 +822,15 @@ export default function ImpromptuPresenterPage() {
             <CardHeader className="bg-muted/50 p-4">
               <CardTitle className="text-xl flex items-center justify-between">
                 <span>Topic: {topic}</span>
-                <span className="text-sm font-normal text-muted-foreground">Slide {currentSlideIndex + 1} of {images.length}</span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  Slide {currentSlideIndex + 1} of {slides.length} · {formatTimestamp(talkElapsedMs / 1000)} / {formatTimestamp(talkTargetSeconds)}
+                </span>
               </CardTitle>
             </CardHeader>
             <CardContent className="p-0 relative aspect-video flex items-center justify-center bg-black">
-              {images.length > 0 && images[currentSlideIndex] && (
+              {slides[currentSlideIndex] ? (
                 <Image
-                  src={images[currentSlideIndex]}
+                  src={slides[currentSlideIndex].imageUrl}
                   alt={`Slide ${currentSlideIndex + 1} for topic: ${topic}`}
                   layout="fill"
                   objectFit="contain"
@@ -317,31 +838,116 @@ export default function ImpromptuPresenterPage() {
                   className="transition-opacity duration-500 ease-in-out opacity-100"
                   data-ai-hint="presentation slide"
                 />
+              ) : slidesFailed ? (
+                <p className="text-muted-foreground">This slide could not be loaded. Keep talking about the topic!</p>
+              ) : (
+                <div className="flex flex-col items-center space-y-2 text-muted-foreground">
+                  <Loader2 className="h-10 w-10 animate-spin" />
+                  <p>Preparing slide...</p>
+                </div>
+              )}
+              {timingLight && (
+                <div
+                  className={cn("absolute right-3 top-3 h-12 w-12 rounded-md shadow-lg", TIMING_LIGHT_STYLES[timingLight].className)}
+                  role="status"
+                  aria-label={`${TIMING_LIGHT_STYLES[timingLight].label} timing light`}
+                />
+              )}
+              {overtimeWarningActive && timingLights?.overtimeWarning === "flash" && !isPaused && (
+                <div className="pointer-events-none absolute inset-0 animate-pulse border-8 border-red-600" aria-hidden="true" />
+              )}
+              {isPaused && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-white">
+                  <Pause className="h-12 w-12" />
+                  <p className="text-2xl font-semibold">Paused</p>
+                </div>
               )}
             </CardContent>
-            <div className="p-2 bg-muted/50">
-              <Progress value={slideProgress} className="w-full h-2 [&>div]:bg-accent" />
+            {showSpeakerHints && slides[currentSlideIndex] && (
+              <SpeakerHints title={slides[currentSlideIndex].title} nudges={slides[currentSlideIndex].nudges} />
+            )}
+            <div className="p-2 bg-muted/50 space-y-2">
+              {slideTimeLimitMs !== null ? (
+                <Progress value={Math.min(100, (slideElapsedMs / slideTimeLimitMs) * 100)} className="w-full h-2 [&>div]:bg-accent" />
+              ) : (
+                <p className="text-center text-sm text-muted-foreground">
+                  {formatTimestamp(timeOnSlideMs / 1000)} on this slide
+                </p>
+              )}
+              <SlideTrack count={slides.length} currentIndex={currentSlideIndex} />
             </div>
-            <div className="p-4 flex items-center justify-center text-muted-foreground">
-              { !audioUnavailable ? (
-                <>
-                  <Mic className="h-5 w-5 mr-2 text-red-500 animate-pulse" /> Recording in progress...
-                </>
+            <div className="p-4 flex items-center justify-between text-muted-foreground">
+              { microphone === "recording" ? (
+                isPaused ? (
+                  <span className="flex items-center">
+                    <Mic className="h-5 w-5 mr-2" /> Recording paused.
+                  </span>
+                ) : (
+                  <span className="flex items-center">
+                    <Mic className="h-5 w-5 mr-2 text-red-500 animate-pulse" /> Recording in progress...
+                  </span>
+                )
               ) : (
-                <>
+                <span className="flex items-center">
                   <MicOff className="h-5 w-5 mr-2" /> Microphone unavailable. No audio recording.
-                </>
+                </span>
               )}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => session.send({ type: isPaused ? "RESUME" : "PAUSE" })}
+                >
+                  {isPaused ? <><Play className="mr-2 h-4 w-4" /> Resume</> : <><Pause className="mr-2 h-4 w-4" /> Pause</>}
+                </Button>
+                {slideAdvance.mode === "manual" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => session.send({ type: "PREVIOUS_SLIDE" })}
+                    disabled={isPaused || currentSlideIndex === 0}
+                    aria-label="Previous slide"
+                  >
+                    <SkipBack className="h-4 w-4" />
+                  </Button>
+                )}
+                {slideAdvance.mode === "manual" && (
+                  <Button
+                    size="sm"
+                    onClick={() => session.send({ type: "NEXT_SLIDE" })}
+                    disabled={isPaused || remainingMinSlideSeconds > 0}
+                  >
+                    <SkipForward className="mr-2 h-4 w-4" />
+                    {remainingMinSlideSeconds > 0
+                      ? `Next in ${remainingMinSlideSeconds}s`
+                      : currentSlideIndex === slides.length - 1 ? "Finish" : "Next slide"}
+                  </Button>
+                )}
+              </div>
             </div>
           </Card>
         );
       case "fetchingFeedback":
         return (
-          <div className="flex flex-col items-center space-y-4 p-8 rounded-lg bg-card shadow-xl">
-            <Loader2 className="h-12 w-12 animate-spin text-primary" />
-            <p className="text-xl text-card-foreground">Analyzing your presentation...</p>
-            <p className="text-muted-foreground">AI is preparing your feedback.</p>
-          </div>
+          feedbackPreview ? (
+            <Card className="w-full max-w-2xl shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-3xl flex items-center justify-center">
+                  <Loader2 className="mr-3 h-8 w-8 animate-spin text-primary" /> Analyzing your presentation...
+                </CardTitle>
+                <CardDescription className="text-center">Each section fills in as the AI writes it.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FeedbackSections feedback={feedbackPreview} />
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="flex flex-col items-center space-y-4 p-8 rounded-lg bg-card shadow-xl">
+              <Loader2 className="h-12 w-12 animate-spin text-primary" />
+              <p className="text-xl text-card-foreground">Analyzing your presentation...</p>
+              <p className="text-muted-foreground">AI is preparing your feedback.</p>
+            </div>
+          )
         );
       case "showFeedback":
         return (
@@ -349,21 +955,53 @@ export default function ImpromptuPresenterPage() {
             <Card className="shadow-xl">
               <CardHeader>
                 <CardTitle className="text-3xl text-center">Presentation Feedback</CardTitle>
-                <CardDescription className="text-center">Here's how you did on "{topic}":</CardDescription>
+                <CardDescription className="text-center">
+                  Here's how you did on "{topic}"{feedback?.rubric && `, graded against the ${feedback.rubric.name} rubric`}:
+                </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                {feedback?.timingWindow && <TimingWindowSummary timingWindow={feedback.timingWindow} />}
                 {feedback ? (
-                  <>
-                    <FeedbackItem icon={<Lightbulb className="text-accent"/>} title="Clarity" content={feedback.clarityFeedback} />
-                    <FeedbackItem icon={<Clock className="text-accent"/>} title="Pacing" content={feedback.pacingFeedback} />
-                    <FeedbackItem icon={<Target className="text-accent"/>} title="Content Relevance" content={feedback.contentRelevanceFeedback} />
-                    <FeedbackItem icon={<Award className="text-accent"/>} title="Overall Feedback" content={feedback.overallFeedback} />
-                  </>
+                  <FeedbackSections feedback={feedback} />
                 ) : (
                   <p className="text-center text-muted-foreground">No feedback available.</p>
                 )}
               </CardContent>
             </Card>
+            {feedback?.slideFeedback && feedback.slideFeedback.length > 0 && (
+              <SlideFeedbackCard slideFeedback={feedback.slideFeedback} slides={slides} />
+            )}
+            {feedback?.metrics && <DeliveryMetricsCard metrics={feedback.metrics} />}
+            {recordingUrl && (
+              <RecordingPlayer
+                ref={recordingPlayerRef}
+                audioUrl={recordingUrl}
+                annotations={feedback?.annotations ?? []}
+                fallbackDurationSeconds={feedback?.metrics?.durationSeconds}
+              />
+            )}
+            {feedback?.transcript && (
+              <TranscriptCard
+                transcript={feedback.transcript}
+                onSeek={recordingUrl ? (seconds) => recordingPlayerRef.current?.seekTo(seconds) : undefined}
+              />
+            )}
+            {feedback?.transcript && feedback.metrics && (
+              <ExemplarComparisonCard
+                topic={topic}
+                slides={slides}
+                outline={outline}
+                transcript={feedback.transcript}
+                metrics={feedback.metrics}
+              />
+            )}
+            {feedback?.criteria && (
+              <CoachingChat
+                topic={topic}
+                slideTitles={slides.map((slide, index) => slide?.title ?? `Slide ${index + 1}`)}
+                feedback={feedback}
+              />
+            )}
             <Button onClick={resetState} className="w-full" size="lg">
               <RotateCcw className="mr-2 h-5 w-5" /> Start New Presentation
             </Button>
@@ -387,11 +1025,11 @@ export default function ImpromptuPresenterPage() {
         <p className="text-muted-foreground mt-3 text-lg">Generate a presentation on the fly and get AI feedback!</p>
       </header>
 
-      {error && (
+      {displayedError && (
         <Alert variant="destructive" className="w-full max-w-md mb-6 shadow-md">
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>Error</AlertTitle>
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{displayedError}</AlertDescription>
         </Alert>
       )}
 
@@ -406,23 +1044,167 @@ export default function ImpromptuPresenterPage() {
   );
 }
 
+interface FeedbackSectionsProps {
+  // A preview while the feedback streams in; its sections fill in as they arrive.
+  feedback: FeedbackPreview | ProvidePresentationFeedbackOutput;
+}
+
+function FeedbackSections({ feedback }: FeedbackSectionsProps) {
+  return (
+    <>
+      {Object.entries(feedback.criteria ?? {}).map(([id, criterion]) => (
+        <FeedbackItem
+          key={id}
+          icon={CRITERION_ICONS[id] ?? <ClipboardCheck className="text-accent"/>}
+          title={criterion.name}
+          content={criterion.feedback}
+          score={{ ...criterion, min: criterion.scale.min, max: criterion.scale.max }}
+        />
+      ))}
+      <FeedbackItem
+        icon={<Award className="text-accent"/>}
+        title="Overall Feedback"
+        content={feedback.overallFeedback}
+        score={feedback.overall && { ...feedback.overall, min: 0, max: 100 }}
+      />
+    </>
+  );
+}
+
+interface FeedbackScore {
+  score?: number;
+  min: number;
+  max: number;
+  justification?: string;
+  keepDoing?: string[];
+  tryNextTime?: string[];
+}
+
 interface FeedbackItemProps {
   icon: React.ReactNode;
   title: string;
-  content: string;
+  // Undefined while the section is still being written.
+  content?: string;
+  score?: FeedbackScore;
 }
 
-function FeedbackItem({ icon, title, content }: FeedbackItemProps) {
+function FeedbackItem({ icon, title, content, score }: FeedbackItemProps) {
+  const value = score?.score;
+  const keepDoing = score?.keepDoing ?? [];
+  const tryNextTime = score?.tryNextTime ?? [];
   return (
     <Card className="bg-muted/30">
       <CardHeader className="flex flex-row items-center space-x-3 pb-2">
         <span className="p-2 bg-accent/20 rounded-full">{icon}</span>
-        <CardTitle className="text-xl text-primary">{title}</CardTitle>
+        <CardTitle className="text-xl text-primary flex-1">{title}</CardTitle>
+        {score && value !== undefined && (
+          <span className="text-2xl font-bold text-accent" aria-label={`Score ${value} out of ${score.max}`}>
+            {value}<span className="text-sm font-normal text-muted-foreground">/{score.max}</span>
+          </span>
+        )}
       </CardHeader>
-      <CardContent>
-        <p className="text-foreground">{content}</p>
+      <CardContent className="space-y-3">
+        {score && value !== undefined && (
+          <div className="space-y-1">
+            <Progress value={((value - score.min) / (score.max - score.min)) * 100} className="h-2 [&>div]:bg-accent" />
+            {score.justification && <p className="text-sm italic text-muted-foreground">{score.justification}</p>}
+          </div>
+        )}
+        {content !== undefined ? (
+          <p className="text-foreground">{content}</p>
+        ) : (
+          <div className="space-y-2" aria-label="Waiting for feedback">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        )}
+        {(keepDoing.length > 0 || tryNextTime.length > 0) && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <FeedbackBullets title="Keep doing" items={keepDoing} />
+            <FeedbackBullets title="Try next time" items={tryNextTime} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
 }
 
+interface FeedbackBulletsProps {
+  title: string;
+  items: string[];
+}
+
+function FeedbackBullets({ title, items }: FeedbackBulletsProps) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="text-sm font-semibold text-primary">{title}</p>
+      <ul className="list-disc pl-5 text-sm text-foreground">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface SpeakerHintsProps {
+  title: string;
+  nudges: string[];
+}
+
+function SpeakerHints({ title, nudges }: SpeakerHintsProps) {
+  return (
+    <div className="px-4 pt-3 pb-1 space-y-1">
+      <p className="font-semibold text-primary">{title}</p>
+      {nudges.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+          {nudges.map((nudge, index) => (
+            <li key={index}>{nudge}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface SlideTrackProps {
+  count: number;
+  currentIndex: number;
+}
+
+function SlideTrack({ count, currentIndex }: SlideTrackProps) {
+  return (
+    <div className="flex w-full gap-1" aria-hidden="true">
+      {Array.from({ length: count }, (_, index) => (
+        <div
+          key={index}
+          className={cn(
+            "h-1 flex-1 rounded-full",
+            index < currentIndex ? "bg-accent" : index === currentIndex ? "bg-accent/60" : "bg-secondary"
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface TimingWindowSummaryProps {
+  timingWindow: TimingWindowResult;
+}
+
+function TimingWindowSummary({ timingWindow }: TimingWindowSummaryProps) {
+  const { greenSeconds, redSeconds, durationSeconds, withinWindow } = timingWindow;
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-center rounded-lg p-3 text-sm",
+        withinWindow ? "bg-green-500/10 text-green-700" : "bg-red-600/10 text-red-700"
+      )}
+    >
+      <Timer className="mr-2 h-4 w-4" />
+      Finished at {formatTimestamp(durationSeconds)}, {withinWindow ? "inside" : "outside"} the{" "}
+      {formatTimestamp(greenSeconds)}-{formatTimestamp(redSeconds)} timing window.
+    </div>
+  );
+}
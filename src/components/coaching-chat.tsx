@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { coachPresentation, type CoachingMessage } from "@/ai/flows/coach-presentation";
+import type { ProvidePresentationFeedbackOutput } from "@/ai/flows/provide-presentation-feedback";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_COACHING_MESSAGE_LENGTH } from "@/lib/presentation";
+import { cn } from "@/lib/utils";
+import { Loader2, MessageCircle, Send } from "lucide-react";
+
+const SUGGESTED_QUESTIONS = [
+  "How could I have opened slide 2 better?",
+  "Give me a stronger conclusion.",
+  "What should I practise first?",
+];
+
+interface CoachingChatProps {
+  topic: string;
+  slideTitles: string[];
+  feedback: ProvidePresentationFeedbackOutput;
+}
+
+// The conversation lives in component state, so it lasts until the session is reset.
+export function CoachingChat({ topic, slideTitles, feedback }: CoachingChatProps) {
+  const [history, setHistory] = useState<CoachingMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isReplying, setIsReplying] = useState(false);
+  const endOfMessagesRef = useRef<HTMLDivElement | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    endOfMessagesRef.current?.scrollIntoView({ block: "nearest" });
+  }, [history, isReplying]);
+
+  const sendMessage = async (message: string) => {
+    const text = message.trim();
+    if (!text || isReplying) return;
+    setDraft("");
+    setHistory(prevHistory => [...prevHistory, { role: "user", text }]);
+    setIsReplying(true);
+    try {
+      const { reply } = await coachPresentation({
+        topic,
+        slides: slideTitles.map(title => ({ title })),
+        feedback,
+        history,
+        message: text,
+      });
+      setHistory(prevHistory => [...prevHistory, { role: "model", text: reply }]);
+    } catch (err) {
+      console.error("Coaching chat error:", err);
+      const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+      toast({ title: "Error", description: `The coach could not answer: ${errorMessage}`, variant: "destructive" });
+      // Drop the unanswered question so the history keeps alternating, and give it back for another try.
+      setHistory(prevHistory => prevHistory.slice(0, -1));
+      setDraft(text);
+    } finally {
+      setIsReplying(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <MessageCircle className="mr-2 h-6 w-6 text-accent" /> Ask Your Coach
+        </CardTitle>
+        <CardDescription>Ask follow-up questions about this presentation and your feedback.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {history.length > 0 ? (
+          <ScrollArea className="h-80 pr-4">
+            <div className="space-y-3">
+              {history.map((message, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm",
+                    message.role === "user" ? "ml-auto bg-primary text-primary-foreground" : "bg-muted text-foreground"
+                  )}
+                >
+                  {message.text}
+                </div>
+              ))}
+              {isReplying && (
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Coach is typing...
+                </div>
+              )}
+              <div ref={endOfMessagesRef} />
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTED_QUESTIONS.map((question) => (
+              <Button key={question} variant="outline" size="sm" onClick={() => sendMessage(question)}>
+                {question}
+              </Button>
+            ))}
+          </div>
+        )}
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void sendMessage(draft);
+          }}
+        >
+          <Textarea
+            value={draft}
+            maxLength={MAX_COACHING_MESSAGE_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                void sendMessage(draft);
+              }
+            }}
+            placeholder="Ask about a slide, your pacing, a better opening..."
+            aria-label="Message to your coach"
+            className="min-h-[44px] text-base"
+            rows={2}
+          />
+          <Button type="submit" size="icon" disabled={!draft.trim() || isReplying} aria-label="Send">
+            {isReplying ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
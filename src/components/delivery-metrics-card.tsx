@@ -0,0 +1,76 @@
+"use client";
+
+import type { DeliveryMetrics } from "@/ai/delivery-metrics";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { formatTimestamp } from "@/lib/utils";
+import { Gauge } from "lucide-react";
+
+// Per-slide bars are scaled against this rate so a comfortable pace sits around the middle.
+const WPM_SCALE_MAX = 250;
+
+interface DeliveryMetricsCardProps {
+  metrics: DeliveryMetrics;
+}
+
+export function DeliveryMetricsCard({ metrics }: DeliveryMetricsCardProps) {
+  const fillerBreakdown = metrics.fillerWords.counts.map(({ word, count }) => `"${word}" ×${count}`).join(", ");
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <Gauge className="mr-2 h-6 w-6 text-accent" /> Delivery Metrics
+        </CardTitle>
+        <CardDescription>Measured from the timing of your transcript.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <MetricTile label="Words per minute" value={String(Math.round(metrics.wordsPerMinute))} />
+          <MetricTile
+            label="Filler words"
+            value={String(metrics.fillerWords.total)}
+            detail={fillerBreakdown || undefined}
+          />
+          <MetricTile
+            label="Longest silence"
+            value={metrics.longestSilence ? `${metrics.longestSilence.durationSeconds.toFixed(1)}s` : "–"}
+            detail={metrics.longestSilence ? `at ${formatTimestamp(metrics.longestSilence.startSeconds)}` : undefined}
+          />
+          <MetricTile label="Talk time" value={`${Math.round(metrics.talkTimeRatio * 100)}%`} />
+        </div>
+        {metrics.slides.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold text-primary">Words per minute by slide</p>
+            {metrics.slides.map((slide) => (
+              <div key={slide.slideNumber} className="flex items-center gap-3 text-sm">
+                <span className="w-16 shrink-0 text-muted-foreground">Slide {slide.slideNumber}</span>
+                <Progress
+                  value={Math.min(100, (slide.wordsPerMinute / WPM_SCALE_MAX) * 100)}
+                  className="h-2 flex-1 [&>div]:bg-accent"
+                />
+                <span className="w-10 shrink-0 text-right font-mono">{Math.round(slide.wordsPerMinute)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MetricTileProps {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+function MetricTile({ label, value, detail }: MetricTileProps) {
+  return (
+    <div className="rounded-lg bg-muted/30 p-3 text-center">
+      <p className="text-2xl font-bold text-accent">{value}</p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      {detail && <p className="mt-1 text-xs text-foreground">{detail}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import type { DeliveryMetrics } from "@/ai/delivery-metrics";
+import type { Slide } from "@/ai/flows/generate-presentation-images";
+import {
+  generateExemplarPresentation,
+  type ExemplarSlide,
+} from "@/ai/flows/generate-exemplar-presentation";
+import type { PresentationOutline } from "@/ai/outline";
+import type { Transcript } from "@/ai/transcription";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { getSlideVisits } from "@/lib/slide-timing";
+import { formatTimestamp } from "@/lib/utils";
+import { Columns2, Loader2, Sparkles } from "lucide-react";
+
+interface ExemplarComparisonCardProps {
+  topic: string;
+  slides: (Slide | null)[];
+  outline: PresentationOutline | null;
+  transcript: Transcript;
+  metrics: DeliveryMetrics;
+}
+
+// What the speaker said while a slide was on screen: segments that started during one of its visits.
+// The visit that ran until the end of the talk also takes any segments that start after it.
+function transcriptForSlide(transcript: Transcript, slide: DeliveryMetrics["slides"][number], talkEndSeconds: number): string {
+  const visits = getSlideVisits(slide);
+  return transcript.segments
+    .filter(({ startSeconds }) =>
+      visits.some(
+        (visit) => startSeconds >= visit.startSeconds && (visit.endSeconds >= talkEndSeconds || startSeconds < visit.endSeconds)
+      )
+    )
+    .map(({ text }) => text)
+    .join(" ");
+}
+
+export function ExemplarComparisonCard({ topic, slides, outline, transcript, metrics }: ExemplarComparisonCardProps) {
+  const [exemplar, setExemplar] = useState<ExemplarSlide[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const shownSlides = metrics.slides.filter(({ slideNumber }) => slides[slideNumber - 1]);
+  const talkEndSeconds = Math.max(0, ...metrics.slides.map(({ endSeconds }) => endSeconds));
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const result = await generateExemplarPresentation({
+        topic,
+        outline: outline ?? undefined,
+        slides: shownSlides.map(({ slideNumber, onScreenSeconds }) => ({
+          imageUrl: slides[slideNumber - 1]!.imageUrl,
+          title: slides[slideNumber - 1]!.title,
+          durationSeconds: Math.max(1, onScreenSeconds),
+        })),
+      });
+      setExemplar(result.slides);
+    } catch (err) {
+      console.error("Exemplar generation error:", err);
+      const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+      toast({ title: "Error", description: `Could not write a model answer: ${errorMessage}`, variant: "destructive" });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (shownSlides.length === 0) return null;
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <Columns2 className="mr-2 h-6 w-6 text-accent" /> Compare With a Model Answer
+        </CardTitle>
+        <CardDescription>See what a strong speaker might have said about the same slides in the same time.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {exemplar ? (
+          shownSlides.map((slide, index) => {
+            const model = exemplar[index];
+            return (
+              <div key={slide.slideNumber} className="space-y-2 rounded-lg bg-muted/30 p-3">
+                <p className="font-semibold text-primary">
+                  Slide {slide.slideNumber}: {slides[slide.slideNumber - 1]?.title}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {getSlideVisits(slide)
+                      .map((visit) => `${formatTimestamp(visit.startSeconds)}-${formatTimestamp(visit.endSeconds)}`)
+                      .join(", ")}
+                  </span>
+                </p>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div>
+                    <p className="text-sm font-semibold text-muted-foreground">What you said</p>
+                    <p className="text-sm text-foreground">
+                      {transcriptForSlide(transcript, slide, talkEndSeconds) || (
+                        <span className="italic text-muted-foreground">Nothing was said on this slide.</span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-semibold text-muted-foreground">Model answer</p>
+                    {model && model.keyPoints.length > 0 && (
+                      <ul className="list-disc pl-5 text-sm text-foreground">
+                        {model.keyPoints.map((point, pointIndex) => (
+                          <li key={pointIndex}>{point}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="mt-1 text-sm italic text-foreground">{model?.script}</p>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <Button onClick={handleGenerate} disabled={isGenerating} variant="outline" className="w-full">
+            {isGenerating ? (
+              <><Loader2 className="mr-2 h-5 w-5 animate-spin" /> Writing a model answer...</>
+            ) : (
+              <><Sparkles className="mr-2 h-5 w-5" /> Write a model answer</>
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
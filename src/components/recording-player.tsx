@@ -0,0 +1,205 @@
+"use client";
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import type { FeedbackAnnotation } from "@/ai/flows/provide-presentation-feedback";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn, formatTimestamp } from "@/lib/utils";
+import { AudioLines, Pause, Play } from "lucide-react";
+
+const WAVEFORM_BARS = 160;
+const KEYBOARD_SEEK_SECONDS = 5;
+
+const ANNOTATION_STYLES: Record<FeedbackAnnotation["kind"], { label: string; className: string }> = {
+  filler: { label: "Filler word", className: "bg-yellow-500" },
+  pause: { label: "Long pause", className: "bg-sky-500" },
+  strength: { label: "Strong moment", className: "bg-green-600" },
+  improvement: { label: "To improve", className: "bg-red-500" },
+};
+
+export interface RecordingPlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+interface RecordingPlayerProps {
+  audioUrl: string;
+  annotations: FeedbackAnnotation[];
+  /** Used until the audio has been decoded; MediaRecorder output often reports no duration. */
+  fallbackDurationSeconds?: number;
+}
+
+interface Waveform {
+  peaks: number[];
+  durationSeconds: number;
+}
+
+async function decodeWaveform(audioUrl: string): Promise<Waveform> {
+  const response = await fetch(audioUrl);
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await response.arrayBuffer());
+    const samples = audio.getChannelData(0);
+    const blockSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+    const peaks = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+      let peak = 0;
+      for (let i = bar * blockSize; i < Math.min(samples.length, (bar + 1) * blockSize); i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    });
+    const highest = Math.max(...peaks, 0.01);
+    return { peaks: peaks.map((peak) => peak / highest), durationSeconds: audio.duration };
+  } finally {
+    void context.close();
+  }
+}
+
+export const RecordingPlayer = forwardRef<RecordingPlayerHandle, RecordingPlayerProps>(function RecordingPlayer(
+  { audioUrl, annotations, fallbackDurationSeconds },
+  ref
+) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    decodeWaveform(audioUrl)
+      .then((decoded) => { if (!cancelled) setWaveform(decoded); })
+      .catch((err) => console.error("Waveform decoding error:", err));
+    return () => { cancelled = true; };
+  }, [audioUrl]);
+
+  const durationSeconds = waveform?.durationSeconds || fallbackDurationSeconds || 0;
+
+  const seekTo = (seconds: number, play = false) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const target = Math.min(Math.max(0, seconds), durationSeconds || seconds);
+    audio.currentTime = target;
+    setCurrentTime(target);
+    if (play) void audio.play();
+  };
+
+  useImperativeHandle(ref, () => ({ seekTo: (seconds: number) => seekTo(seconds, true) }));
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) void audio.play();
+    else audio.pause();
+  };
+
+  const seekToPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!durationSeconds) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    seekTo(((event.clientX - bounds.left) / bounds.width) * durationSeconds);
+  };
+
+  const handleTimelineKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "ArrowLeft") seekTo(currentTime - KEYBOARD_SEEK_SECONDS);
+    else if (event.key === "ArrowRight") seekTo(currentTime + KEYBOARD_SEEK_SECONDS);
+    else return;
+    event.preventDefault();
+  };
+
+  const toPercent = (seconds: number) => (durationSeconds > 0 ? Math.min(100, (seconds / durationSeconds) * 100) : 0);
+  const playedPercent = toPercent(currentTime);
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <AudioLines className="mr-2 h-6 w-6 text-accent" /> Your Recording
+        </CardTitle>
+        <CardDescription>Play back your talk. Click a marker or a comment to jump to that moment.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          preload="auto"
+          onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+        />
+        <div className="flex items-center gap-3">
+          <Button size="icon" variant="outline" onClick={togglePlayback} aria-label={isPlaying ? "Pause" : "Play"}>
+            {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+          </Button>
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Playback position"
+            aria-valuemin={0}
+            aria-valuemax={Math.round(durationSeconds)}
+            aria-valuenow={Math.round(currentTime)}
+            aria-valuetext={formatTimestamp(currentTime)}
+            className="relative h-16 flex-1 cursor-pointer touch-none select-none rounded-md bg-muted/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId);
+              seekToPointer(event);
+            }}
+            onPointerMove={(event) => { if (event.buttons === 1) seekToPointer(event); }}
+            onKeyDown={handleTimelineKeyDown}
+          >
+            <div className="absolute inset-0 flex items-center gap-px px-1">
+              {(waveform?.peaks ?? Array<number>(WAVEFORM_BARS).fill(0.05)).map((peak, index, peaks) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "flex-1 rounded-sm",
+                    ((index + 0.5) / peaks.length) * 100 <= playedPercent ? "bg-accent" : "bg-muted-foreground/40"
+                  )}
+                  style={{ height: `${Math.max(4, peak * 100)}%` }}
+                />
+              ))}
+            </div>
+            <div className="absolute inset-y-0 w-0.5 bg-primary" style={{ left: `${playedPercent}%` }} />
+            {durationSeconds > 0 && annotations.map((annotation, index) => (
+              <button
+                key={index}
+                type="button"
+                title={`${formatTimestamp(annotation.startSeconds)} ${annotation.label}`}
+                aria-label={`${ANNOTATION_STYLES[annotation.kind].label} at ${formatTimestamp(annotation.startSeconds)}`}
+                className={cn(
+                  "absolute -top-1 h-3 w-3 -translate-x-1/2 rounded-full border border-background",
+                  ANNOTATION_STYLES[annotation.kind].className
+                )}
+                style={{ left: `${toPercent(annotation.startSeconds)}%` }}
+                onPointerDown={(event) => event.stopPropagation()}
+                onClick={() => seekTo(annotation.startSeconds, true)}
+              />
+            ))}
+          </div>
+          <span className="w-24 shrink-0 text-right font-mono text-sm text-muted-foreground">
+            {formatTimestamp(currentTime)} / {formatTimestamp(durationSeconds)}
+          </span>
+        </div>
+        {annotations.length > 0 && (
+          <ScrollArea className="h-48 pr-4">
+            <ul className="space-y-1">
+              {annotations.map((annotation, index) => (
+                <li key={index}>
+                  <button
+                    type="button"
+                    className="flex w-full items-start gap-3 rounded-md p-1 text-left text-sm hover:bg-muted/50"
+                    onClick={() => seekTo(annotation.startSeconds, true)}
+                  >
+                    <span className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", ANNOTATION_STYLES[annotation.kind].className)} />
+                    <span className="shrink-0 font-mono text-muted-foreground">{formatTimestamp(annotation.startSeconds)}</span>
+                    <span className="text-foreground">{annotation.label}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
@@ -0,0 +1,59 @@
+"use client";
+
+import Image from "next/image";
+import type { SlideFeedback } from "@/ai/flows/provide-presentation-feedback";
+import type { Slide } from "@/ai/flows/generate-presentation-images";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { GalleryHorizontal } from "lucide-react";
+
+interface SlideFeedbackCardProps {
+  slideFeedback: SlideFeedback[];
+  slides: (Slide | null)[];
+}
+
+export function SlideFeedbackCard({ slideFeedback, slides }: SlideFeedbackCardProps) {
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <GalleryHorizontal className="mr-2 h-6 w-6 text-accent" /> Slide by Slide
+        </CardTitle>
+        <CardDescription>How you handled each slide while it was on screen.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {slideFeedback.map((item) => {
+          const slide = slides[item.slideNumber - 1];
+          return (
+            <div key={item.slideNumber} className="flex flex-col gap-3 rounded-lg bg-muted/30 p-3 sm:flex-row">
+              <div className="relative aspect-video w-full shrink-0 overflow-hidden rounded-md bg-black sm:w-40">
+                {slide && (
+                  <Image
+                    src={slide.imageUrl}
+                    alt={`Slide ${item.slideNumber}`}
+                    fill
+                    sizes="160px"
+                    className="object-contain"
+                  />
+                )}
+              </div>
+              <div className="space-y-1 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-semibold text-primary">
+                    Slide {item.slideNumber}{slide ? `: ${slide.title}` : ""}
+                  </p>
+                  <span className="shrink-0 font-bold text-accent" title="Image interpretation score">
+                    {item.interpretationScore}/10
+                  </span>
+                </div>
+                <p className="italic text-muted-foreground">{item.imageDescription}</p>
+                <p><span className="font-medium">Image connection:</span> {item.imageConnection}</p>
+                <p><span className="font-medium">Use of time:</span> {item.timeUse}</p>
+                <p><span className="font-medium">Transition:</span> {item.transition}</p>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
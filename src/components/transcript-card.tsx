@@ -0,0 +1,54 @@
+"use client";
+
+import type { Transcript } from "@/ai/transcription";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { formatTimestamp } from "@/lib/utils";
+import { FileText } from "lucide-react";
+
+interface TranscriptCardProps {
+  transcript: Transcript;
+  /** When provided, segment timestamps become links into the recording. */
+  onSeek?: (seconds: number) => void;
+}
+
+export function TranscriptCard({ transcript, onSeek }: TranscriptCardProps) {
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <FileText className="mr-2 h-6 w-6 text-accent" /> Transcript
+        </CardTitle>
+        <CardDescription>What you said, as heard by the AI.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {transcript.segments.length > 0 ? (
+          <ScrollArea className="h-72 pr-4">
+            <ol className="space-y-2">
+              {transcript.segments.map((segment, index) => (
+                <li key={index} className="flex gap-3">
+                  {onSeek ? (
+                    <button
+                      type="button"
+                      className="shrink-0 font-mono text-sm text-accent hover:underline"
+                      onClick={() => onSeek(segment.startSeconds)}
+                    >
+                      {formatTimestamp(segment.startSeconds)}
+                    </button>
+                  ) : (
+                    <span className="shrink-0 font-mono text-sm text-muted-foreground">
+                      {formatTimestamp(segment.startSeconds)}
+                    </span>
+                  )}
+                  <span className="text-foreground">{segment.text}</span>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        ) : (
+          <p className="text-muted-foreground">No speech was detected in the recording.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { createMediaRecorder } from "@/lib/media-recorder";
+import {
+  createPresentationSession,
+  type PresentationSession,
+  type RecordingResult,
+  type SessionState,
+  type SessionTiming,
+} from "@/lib/presentation-session";
+
+interface UsePresentationSessionOptions {
+  timing: SessionTiming;
+  onRecordingComplete: (recording: RecordingResult) => void;
+}
+
+// Runs one presentation session for the lifetime of the component, with the browser clock and microphone.
+export function usePresentationSession({
+  timing,
+  onRecordingComplete,
+}: UsePresentationSessionOptions): [SessionState, PresentationSession] {
+  // The session outlives renders, so it calls back into whichever handler the latest render supplied.
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  onRecordingCompleteRef.current = onRecordingComplete;
+
+  const [session] = useState(() =>
+    createPresentationSession({
+      timing,
+      recorder: createMediaRecorder(),
+      onRecordingComplete: (recording) => onRecordingCompleteRef.current(recording),
+    })
+  );
+
+  useEffect(() => () => {
+    session.send({ type: "RESET" });
+  }, [session]);
+
+  const state = useSyncExternalStore(session.subscribe, session.getState, session.getState);
+  return [state, session];
+}
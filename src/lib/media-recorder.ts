@@ -0,0 +1,65 @@
+// Browser audio recorder for presentation sessions, backed by getUserMedia and MediaRecorder.
+
+import type { SessionRecorder } from "@/lib/presentation-session";
+
+export function createMediaRecorder(): SessionRecorder {
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+
+  const release = (active: MediaRecorder) => {
+    active.stream.getTracks().forEach((track) => track.stop());
+    if (recorder === active) recorder = null;
+  };
+
+  const discard = () => {
+    const active = recorder;
+    chunks = [];
+    if (!active) return;
+    active.ondataavailable = null;
+    active.onstop = null;
+    if (active.state !== "inactive") active.stop();
+    release(active);
+  };
+
+  return {
+    async start() {
+      discard();
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const active = new MediaRecorder(stream);
+        active.ondataavailable = (event) => {
+          if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder = active;
+        active.start();
+        return "recording";
+      } catch (err) {
+        console.error("Microphone access error:", err);
+        return err instanceof Error && err.name === "NotAllowedError" ? "permission-denied" : "unavailable";
+      }
+    },
+    pause() {
+      if (recorder?.state === "recording") recorder.pause();
+    },
+    resume() {
+      if (recorder?.state === "paused") recorder.resume();
+    },
+    stop() {
+      const active = recorder;
+      if (!active || active.state === "inactive") {
+        discard();
+        return Promise.resolve(null);
+      }
+      return new Promise((resolve) => {
+        active.onstop = () => {
+          const audio = new Blob(chunks, { type: "audio/webm" });
+          chunks = [];
+          release(active);
+          resolve(audio.size > 0 ? audio : null);
+        };
+        active.stop();
+      });
+    },
+    discard,
+  };
+}
@@ -0,0 +1,267 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createPresentationSession,
+  createSessionState,
+  getSlideElapsedMs,
+  getTalkTargetSeconds,
+  isCurrentSlideShown,
+  transition,
+  type RecordingResult,
+  type SessionClock,
+  type SessionRecorder,
+  type SessionTiming,
+} from "@/lib/presentation-session";
+import { DEFAULT_TIMING_PROFILE } from "@/lib/timing-profiles";
+
+const TIMING: SessionTiming = {
+  profile: { ...DEFAULT_TIMING_PROFILE, countdownSeconds: 3, slideDurationSeconds: 15 },
+  advance: { mode: "auto" },
+  lights: null,
+};
+
+// A clock whose time only moves when the test advances it, firing due timers in order.
+function createFakeClock() {
+  let now = 0;
+  let nextId = 0;
+  let timers: { id: number; at: number; callback: () => void }[] = [];
+  const clock: SessionClock = {
+    now: () => now,
+    setTimeout(callback, ms) {
+      const id = ++nextId;
+      timers.push({ id, at: now + ms, callback });
+      return id;
+    },
+    clearTimeout(handle) {
+      timers = timers.filter(({ id }) => id !== handle);
+    },
+  };
+  const advance = async (ms: number) => {
+    const until = now + ms;
+    for (;;) {
+      const due = [...timers].sort((a, b) => a.at - b.at)[0];
+      if (!due || due.at > until) break;
+      timers = timers.filter(({ id }) => id !== due.id);
+      now = due.at;
+      due.callback();
+      // Let the recorder's promises settle before the next timer fires.
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    now = until;
+  };
+  return { clock, advance, pendingTimers: () => timers.length };
+}
+
+function createFakeRecorder() {
+  const calls: string[] = [];
+  const recorder: SessionRecorder = {
+    start: async () => {
+      calls.push("start");
+      return "recording";
+    },
+    pause: () => calls.push("pause"),
+    resume: () => calls.push("resume"),
+    stop: async () => {
+      calls.push("stop");
+      return new Blob(["audio"]);
+    },
+    discard: () => calls.push("discard"),
+  };
+  return { recorder, calls };
+}
+
+function startSession() {
+  const { clock, advance, pendingTimers } = createFakeClock();
+  const { recorder, calls } = createFakeRecorder();
+  const recordings: RecordingResult[] = [];
+  const session = createPresentationSession({
+    timing: TIMING,
+    recorder,
+    clock,
+    onRecordingComplete: (recording) => recordings.push(recording),
+  });
+  return { session, advance, pendingTimers, calls, recordings };
+}
+
+test("rejected events leave the state object unchanged", () => {
+  const idle = createSessionState(TIMING);
+  assert.equal(transition(idle, { type: "SLIDE_READY", index: 0 }, 0), idle);
+  assert.equal(transition(idle, { type: "PAUSE" }, 0), idle);
+});
+
+test("slides that arrive out of order are all accepted", () => {
+  const { session } = startSession();
+  assert.equal(session.send({ type: "START", slideCount: 3 }), true);
+  assert.equal(session.send({ type: "SLIDE_READY", index: 2 }), true);
+  assert.equal(session.send({ type: "SLIDE_READY", index: 1 }), true);
+  assert.equal(session.getState().stage, "generatingImages");
+  assert.equal(session.send({ type: "SLIDE_READY", index: 0 }), true);
+  assert.equal(session.getState().stage, "countdown");
+  assert.deepEqual(session.getState().readySlides, [true, true, true]);
+  assert.equal(session.send({ type: "GENERATION_COMPLETE" }), false);
+});
+
+test("a session runs from countdown through the slideshow to feedback", async () => {
+  const { session, advance, pendingTimers, calls, recordings } = startSession();
+  session.send({ type: "START", slideCount: 2 });
+  session.send({ type: "SLIDE_READY", index: 1 });
+  session.send({ type: "SLIDE_READY", index: 0 });
+  session.send({ type: "GENERATION_COMPLETE" });
+
+  await advance(3000);
+  assert.equal(session.getState().stage, "slideshow");
+  assert.equal(session.getState().microphone, "recording");
+  assert.equal(session.getState().currentSlideIndex, 0);
+
+  await advance(15000);
+  assert.equal(session.getState().currentSlideIndex, 1);
+
+  await advance(5000);
+  assert.equal(session.send({ type: "FINISH" }), true);
+  await advance(0);
+  assert.equal(session.getState().stage, "fetchingFeedback");
+  assert.deepEqual(calls, ["start", "stop"]);
+  assert.equal(recordings.length, 1);
+  assert.equal(recordings[0].durationSeconds, 20);
+  assert.deepEqual(recordings[0].slideTimings, [
+    { startSeconds: 0, endSeconds: 15 },
+    { startSeconds: 15, endSeconds: 20 },
+  ]);
+  assert.equal(pendingTimers(), 0);
+
+  assert.equal(session.send({ type: "FEEDBACK_SETTLED" }), true);
+  assert.equal(session.getState().stage, "showFeedback");
+});
+
+test("a slide that has not arrived yet holds its time until it does", async () => {
+  const { session, advance, recordings } = startSession();
+  session.send({ type: "START", slideCount: 2 });
+  session.send({ type: "SLIDE_READY", index: 0 });
+  await advance(3000 + 15000);
+  assert.equal(session.getState().currentSlideIndex, 1);
+  assert.equal(isCurrentSlideShown(session.getState()), false);
+
+  await advance(60000);
+  assert.equal(session.getState().stage, "slideshow");
+  assert.equal(getSlideElapsedMs(session.getState(), 60000), 0);
+
+  session.send({ type: "SLIDE_READY", index: 1 });
+  assert.equal(isCurrentSlideShown(session.getState()), true);
+  await advance(14999);
+  assert.equal(session.getState().stage, "slideshow");
+  await advance(1);
+  assert.equal(session.getState().stage, "fetchingFeedback");
+  assert.equal(recordings[0].durationSeconds, 90);
+  assert.deepEqual(recordings[0].slideTimings, [
+    { startSeconds: 0, endSeconds: 15 },
+    { startSeconds: 75, endSeconds: 90 },
+  ]);
+});
+
+test("a paused slide resumes with the time it had left", async () => {
+  const { session, advance, calls, recordings } = startSession();
+  session.send({ type: "START", slideCount: 2 });
+  session.send({ type: "SLIDE_READY", index: 0 });
+  session.send({ type: "SLIDE_READY", index: 1 });
+  await advance(3000);
+
+  await advance(10000);
+  assert.equal(session.send({ type: "PAUSE" }), true);
+  await advance(60000);
+  assert.equal(session.getState().currentSlideIndex, 0);
+
+  assert.equal(session.send({ type: "RESUME" }), true);
+  await advance(4999);
+  assert.equal(session.getState().currentSlideIndex, 0);
+  await advance(1);
+  assert.equal(session.getState().currentSlideIndex, 1);
+
+  await advance(15000);
+  assert.equal(session.getState().stage, "fetchingFeedback");
+  assert.deepEqual(calls, ["start", "pause", "resume", "stop"]);
+  assert.equal(recordings[0].durationSeconds, 30);
+  assert.deepEqual(recordings[0].slideTimings, [
+    { startSeconds: 0, endSeconds: 15 },
+    { startSeconds: 15, endSeconds: 30 },
+  ]);
+});
+
+test("resetting mid-session discards the recording and cancels timers", async () => {
+  const { session, advance, pendingTimers, calls, recordings } = startSession();
+  session.send({ type: "START", slideCount: 1 });
+  session.send({ type: "SLIDE_READY", index: 0 });
+  await advance(3000);
+  assert.equal(session.send({ type: "RESET" }), true);
+  assert.equal(session.getState().stage, "idle");
+  assert.equal(session.send({ type: "SLIDE_READY", index: 0 }), false);
+  assert.equal(pendingTimers(), 0);
+  assert.deepEqual(calls, ["start", "discard"]);
+  assert.equal(recordings.length, 0);
+});
+
+test("manual mode moves back and forth and times every visit", async () => {
+  const { session, advance, recordings } = startSession();
+  session.send({
+    type: "START",
+    slideCount: 2,
+    timing: { ...TIMING, advance: { mode: "manual", minSlideMs: 5000, maxSlideMs: 20000 } },
+  });
+  session.send({ type: "SLIDE_READY", index: 0 });
+  session.send({ type: "SLIDE_READY", index: 1 });
+  await advance(3000);
+
+  assert.equal(session.send({ type: "PREVIOUS_SLIDE" }), false);
+  await advance(4000);
+  assert.equal(session.send({ type: "NEXT_SLIDE" }), false);
+  await advance(1000);
+  assert.equal(session.send({ type: "NEXT_SLIDE" }), true);
+
+  await advance(3000);
+  assert.equal(session.send({ type: "PREVIOUS_SLIDE" }), true);
+  assert.equal(session.getState().currentSlideIndex, 0);
+  // Slide 1 already had its minimum on the first visit.
+  await advance(2000);
+  assert.equal(session.send({ type: "NEXT_SLIDE" }), true);
+
+  // The maximum applies to each visit: slide 2 has been up for 3s before, and moves on 20s into this visit.
+  await advance(19999);
+  assert.equal(session.getState().stage, "slideshow");
+  await advance(1);
+  assert.equal(session.getState().stage, "fetchingFeedback");
+
+  assert.deepEqual(recordings[0].slideTimings, [
+    {
+      startSeconds: 0,
+      endSeconds: 10,
+      visits: [
+        { startSeconds: 0, endSeconds: 5 },
+        { startSeconds: 8, endSeconds: 10 },
+      ],
+    },
+    {
+      startSeconds: 5,
+      endSeconds: 30,
+      visits: [
+        { startSeconds: 5, endSeconds: 8 },
+        { startSeconds: 10, endSeconds: 30 },
+      ],
+    },
+  ]);
+});
+
+test("going back is only possible in manual mode", async () => {
+  const { session, advance } = startSession();
+  session.send({ type: "START", slideCount: 2 });
+  session.send({ type: "SLIDE_READY", index: 0 });
+  await advance(3000 + 15000);
+  assert.equal(session.getState().currentSlideIndex, 1);
+  assert.equal(session.send({ type: "PREVIOUS_SLIDE" }), false);
+  assert.equal(session.send({ type: "NEXT_SLIDE" }), false);
+});
+
+test("auto-advancing talks are judged against the slideshow when it is shorter than the budget", () => {
+  const profile = { slideDurationSeconds: 15, talkBudgetSeconds: 60 };
+  assert.equal(getTalkTargetSeconds(profile, "auto", 3), 45);
+  assert.equal(getTalkTargetSeconds(profile, "auto", 5), 60);
+  assert.equal(getTalkTargetSeconds(profile, "manual", 3), 60);
+});
@@ -0,0 +1,466 @@
+// Headless presentation session: the idle → generatingImages → countdown → slideshow → fetchingFeedback → showFeedback
+// lifecycle as a pure, guarded reducer, plus a controller that runs its timers and the audio recorder.
+// Nothing here depends on React or the browser; the clock and recorder are injected so a session can be driven
+// step by step from tests or reused by other screens.
+
+import type { SlideTiming } from "@/lib/slide-timing";
+import type { TimingLights } from "@/lib/timing-lights";
+import type { TimingProfile } from "@/lib/timing-profiles";
+
+export type SessionStage = "idle" | "generatingImages" | "countdown" | "slideshow" | "fetchingFeedback" | "showFeedback";
+
+export type MicrophoneStatus = "pending" | "recording" | "permission-denied" | "unavailable";
+
+// Slides either move on by themselves after the profile's time per slide, or when the speaker says so,
+// optionally within per-slide limits.
+export type SlideAdvance = { mode: "auto" } | { mode: "manual"; minSlideMs?: number; maxSlideMs?: number };
+
+export interface SessionTiming {
+  profile: TimingProfile;
+  advance: SlideAdvance;
+  lights: TimingLights | null;
+}
+
+export interface PauseInterval {
+  startedAt: number;
+  endedAt: number;
+}
+
+// A stretch during which one slide was on screen. It lasts until the next visit starts or the session stops.
+export interface SlideVisit {
+  index: number;
+  startedAt: number;
+  // When the slide's image appeared, or null while it is still being generated. The slide's time starts here.
+  shownAt: number | null;
+}
+
+export interface SessionState {
+  stage: SessionStage;
+  timing: SessionTiming;
+  slideCount: number;
+  // Slides stream in after the countdown may already have started; true once the stream has failed.
+  slidesFailed: boolean;
+  countdownValue: number;
+  currentSlideIndex: number;
+  // Which slides have arrived from the image stream, indexed by slide. A slide's time is held until it arrives.
+  readySlides: boolean[];
+  // Every time a slide was shown, in order, on the session clock. Speakers can go back in manual mode.
+  slideVisits: SlideVisit[];
+  recordingStartedAt: number | null;
+  stoppedAt: number | null;
+  // Set while the slideshow is paused. Finished pauses are kept so they can be cut out of the timeline.
+  pausedAt: number | null;
+  pauses: PauseInterval[];
+  microphone: MicrophoneStatus;
+  error: string | null;
+}
+
+export type SessionEvent =
+  | { type: "START"; slideCount: number; timing?: SessionTiming }
+  | { type: "SLIDE_READY"; index: number }
+  | { type: "GENERATION_COMPLETE" }
+  | { type: "GENERATION_FAILED"; error: string }
+  | { type: "COUNTDOWN_TICK" }
+  | { type: "RECORDING_STARTED"; microphone: Exclude<MicrophoneStatus, "pending"> }
+  | { type: "SLIDE_ELAPSED" }
+  | { type: "NEXT_SLIDE" }
+  | { type: "PREVIOUS_SLIDE" }
+  | { type: "PAUSE" }
+  | { type: "RESUME" }
+  | { type: "FINISH" }
+  | { type: "FEEDBACK_SETTLED" }
+  | { type: "RESET" };
+
+type EventOfType<T extends SessionEvent["type"]> = Extract<SessionEvent, { type: T }>;
+
+export function createSessionState(timing: SessionTiming): SessionState {
+  return {
+    stage: "idle",
+    timing,
+    slideCount: 0,
+    slidesFailed: false,
+    countdownValue: timing.profile.countdownSeconds,
+    currentSlideIndex: 0,
+    readySlides: [],
+    slideVisits: [],
+    recordingStartedAt: null,
+    stoppedAt: null,
+    pausedAt: null,
+    pauses: [],
+    microphone: "pending",
+    error: null,
+  };
+}
+
+type SessionGuard<T extends SessionEvent["type"]> = (state: SessionState, event: EventOfType<T>, now: number) => boolean;
+
+const SESSION_GUARDS: { [T in SessionEvent["type"]]: SessionGuard<T> } = {
+  START: (state, event) => state.stage === "idle" && Number.isInteger(event.slideCount) && event.slideCount > 0,
+  SLIDE_READY: (state, event) =>
+    (state.stage === "generatingImages" || state.stage === "countdown" || state.stage === "slideshow") &&
+    event.index >= 0 &&
+    event.index < state.slideCount,
+  GENERATION_COMPLETE: (state) => state.stage === "generatingImages",
+  GENERATION_FAILED: (state) =>
+    state.stage === "generatingImages" || state.stage === "countdown" || state.stage === "slideshow",
+  COUNTDOWN_TICK: (state) => state.stage === "countdown" && state.countdownValue > 0,
+  RECORDING_STARTED: (state) => state.stage === "countdown" && state.countdownValue === 0,
+  SLIDE_ELAPSED: (state) => state.stage === "slideshow" && state.pausedAt === null,
+  // The minimum counts every visit to the slide, so going back to one does not hold the speaker there again.
+  NEXT_SLIDE: (state, _event, now) =>
+    state.stage === "slideshow" &&
+    state.pausedAt === null &&
+    state.timing.advance.mode === "manual" &&
+    getTimeOnSlideMs(state, state.currentSlideIndex, now) >= (state.timing.advance.minSlideMs ?? 0),
+  PREVIOUS_SLIDE: (state) =>
+    state.stage === "slideshow" &&
+    state.pausedAt === null &&
+    state.timing.advance.mode === "manual" &&
+    state.currentSlideIndex > 0,
+  PAUSE: (state) => state.stage === "slideshow" && state.pausedAt === null,
+  RESUME: (state) => state.stage === "slideshow" && state.pausedAt !== null,
+  FINISH: (state) => state.stage === "slideshow",
+  FEEDBACK_SETTLED: (state) => state.stage === "fetchingFeedback",
+  RESET: () => true,
+};
+
+export function canTransition(state: SessionState, event: SessionEvent, now: number): boolean {
+  const guard = SESSION_GUARDS[event.type] as SessionGuard<SessionEvent["type"]>;
+  return guard(state, event, now);
+}
+
+function endPause(state: SessionState, now: number): SessionState {
+  if (state.pausedAt === null) return state;
+  return { ...state, pausedAt: null, pauses: [...state.pauses, { startedAt: state.pausedAt, endedAt: now }] };
+}
+
+function finish(state: SessionState, now: number): SessionState {
+  return { ...endPause(state, now), stage: "fetchingFeedback", stoppedAt: now };
+}
+
+function showSlide(state: SessionState, index: number, now: number): SessionState {
+  const shownAt = state.readySlides[index] || state.slidesFailed ? now : null;
+  return { ...state, currentSlideIndex: index, slideVisits: [...state.slideVisits, { index, startedAt: now, shownAt }] };
+}
+
+// Starts the current slide's time once something can be shown for it: its image, or the failure message.
+function revealCurrentSlide(state: SessionState, now: number): SessionState {
+  const visit = state.slideVisits.at(-1);
+  if (state.stage !== "slideshow" || !visit || visit.shownAt !== null) return state;
+  if (!state.readySlides[visit.index] && !state.slidesFailed) return state;
+  return { ...state, slideVisits: [...state.slideVisits.slice(0, -1), { ...visit, shownAt: now }] };
+}
+
+// Whether the slide on screen has appeared, so its time is running.
+export function isCurrentSlideShown(state: SessionState): boolean {
+  return state.slideVisits.at(-1)?.shownAt != null;
+}
+
+// Returns the state unchanged (the same object) when the event is not allowed in the current state.
+export function transition(state: SessionState, event: SessionEvent, now: number): SessionState {
+  if (!canTransition(state, event, now)) return state;
+  switch (event.type) {
+    case "START":
+      return { ...createSessionState(event.timing ?? state.timing), stage: "generatingImages", slideCount: event.slideCount };
+    case "SLIDE_READY": {
+      const readySlides = [...state.readySlides];
+      readySlides[event.index] = true;
+      // The countdown starts as soon as the first slide exists; the rest fill in before their turn comes.
+      const stage = state.stage === "generatingImages" && event.index === 0 ? "countdown" : state.stage;
+      return revealCurrentSlide({ ...state, stage, readySlides }, now);
+    }
+    case "GENERATION_COMPLETE":
+      return { ...state, stage: "countdown", readySlides: Array<boolean>(state.slideCount).fill(true) };
+    case "GENERATION_FAILED":
+      return state.stage === "generatingImages"
+        ? { ...createSessionState(state.timing), error: event.error }
+        : revealCurrentSlide({ ...state, slidesFailed: true }, now);
+    case "COUNTDOWN_TICK":
+      return { ...state, countdownValue: state.countdownValue - 1 };
+    case "RECORDING_STARTED":
+      return showSlide(
+        {
+          ...state,
+          stage: "slideshow",
+          microphone: event.microphone,
+          recordingStartedAt: event.microphone === "recording" ? now : null,
+        },
+        0,
+        now
+      );
+    case "SLIDE_ELAPSED":
+    case "NEXT_SLIDE":
+      return state.currentSlideIndex < state.slideCount - 1
+        ? showSlide(state, state.currentSlideIndex + 1, now)
+        : finish(state, now);
+    case "PREVIOUS_SLIDE":
+      return showSlide(state, state.currentSlideIndex - 1, now);
+    case "PAUSE":
+      return { ...state, pausedAt: now };
+    case "RESUME":
+      return endPause(state, now);
+    case "FINISH":
+      return finish(state, now);
+    case "FEEDBACK_SETTLED":
+      return { ...state, stage: "showFeedback" };
+    case "RESET":
+      return createSessionState(state.timing);
+  }
+}
+
+// How long a slide may stay on screen before it moves on by itself, or null if it waits for the speaker.
+// In manual mode the maximum applies to each visit, so a slide the speaker goes back to can still be shown.
+export function getSlideTimeLimitMs(timing: SessionTiming): number | null {
+  return timing.advance.mode === "auto" ? timing.profile.slideDurationSeconds * 1000 : timing.advance.maxSlideMs ?? null;
+}
+
+// How long the talk is meant to run. Auto-advancing slides end the slideshow once every slide has had its time,
+// which can come before the budget, so the target is whichever is shorter.
+export function getTalkTargetSeconds(
+  profile: Pick<TimingProfile, "slideDurationSeconds" | "talkBudgetSeconds">,
+  advanceMode: SlideAdvance["mode"],
+  slideCount: number
+): number {
+  const { slideDurationSeconds, talkBudgetSeconds } = profile;
+  return advanceMode === "auto" ? Math.min(talkBudgetSeconds, slideCount * slideDurationSeconds) : talkBudgetSeconds;
+}
+
+// How long the session was paused between two points on its clock, counting a pause still in progress.
+export function getPausedMs(state: SessionState, from: number, to: number): number {
+  const intervals = state.pausedAt === null ? state.pauses : [...state.pauses, { startedAt: state.pausedAt, endedAt: to }];
+  return intervals.reduce(
+    (total, { startedAt, endedAt }) => total + Math.max(0, Math.min(endedAt, to) - Math.max(startedAt, from)),
+    0
+  );
+}
+
+// The clock times each visit's slide was on screen between, with the visit in progress running until now (or until
+// the pause). Time spent waiting for a slide to arrive belongs to no slide.
+function getVisitIntervals(state: SessionState, now: number): { index: number; startedAt: number; endedAt: number }[] {
+  const until = state.stoppedAt ?? state.pausedAt ?? now;
+  return state.slideVisits.map((visit, position, visits) => {
+    const endedAt = visits[position + 1]?.startedAt ?? until;
+    return { index: visit.index, startedAt: Math.min(visit.shownAt ?? endedAt, endedAt), endedAt };
+  });
+}
+
+// How long the current slide has been shown since it last appeared, not counting pauses.
+export function getSlideElapsedMs(state: SessionState, now: number): number {
+  const shownAt = state.slideVisits.at(-1)?.shownAt;
+  if (shownAt == null) return 0;
+  const until = state.pausedAt ?? now;
+  return Math.max(0, until - shownAt - getPausedMs(state, shownAt, until));
+}
+
+// How long a slide has been shown across all of its visits, not counting pauses.
+export function getTimeOnSlideMs(state: SessionState, index: number, now: number): number {
+  return getVisitIntervals(state, now)
+    .filter((visit) => visit.index === index)
+    .reduce((total, { startedAt, endedAt }) => total + endedAt - startedAt - getPausedMs(state, startedAt, endedAt), 0);
+}
+
+// How long the talk has been running, not counting pauses; it stops counting when the recording does.
+export function getTalkElapsedMs(state: SessionState, now: number): number {
+  const startedAt = state.recordingStartedAt ?? state.slideVisits[0]?.startedAt;
+  if (startedAt === undefined) return 0;
+  const until = state.stoppedAt ?? state.pausedAt ?? now;
+  return until - startedAt - getPausedMs(state, startedAt, until);
+}
+
+// Maps a point on the session clock onto the recording, which does not run while the slideshow is paused.
+function toRecordingSeconds(state: SessionState, startedAt: number, time: number): number {
+  return Math.max(0, (time - startedAt - getPausedMs(state, startedAt, time)) / 1000);
+}
+
+// One timing per slide that was shown, in slide order, running from the first time the slide appeared until it was
+// last replaced, or until the recording stopped. Slides the speaker went back to also list each visit.
+export function getSlideTimings(state: SessionState): SlideTiming[] {
+  const startedAt = state.recordingStartedAt ?? state.slideVisits[0]?.startedAt;
+  if (startedAt === undefined || state.stoppedAt === null) return [];
+  const visits = getVisitIntervals(state, state.stoppedAt).map((visit) => ({
+    index: visit.index,
+    startSeconds: toRecordingSeconds(state, startedAt, visit.startedAt),
+    endSeconds: toRecordingSeconds(state, startedAt, visit.endedAt),
+  }));
+  // Slides can only be reached in order, so the shown slides are always the first few.
+  const shownCount = Math.max(0, ...visits.map(({ index }) => index + 1));
+  return Array.from({ length: shownCount }, (_, index) => {
+    const slideVisits = visits
+      .filter((visit) => visit.index === index)
+      .map(({ startSeconds, endSeconds }) => ({ startSeconds, endSeconds }));
+    return {
+      startSeconds: slideVisits[0].startSeconds,
+      endSeconds: slideVisits[slideVisits.length - 1].endSeconds,
+      ...(slideVisits.length > 1 && { visits: slideVisits }),
+    };
+  });
+}
+
+export interface SessionClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: SessionClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface SessionRecorder {
+  /** Starts capturing audio, reporting whether a microphone could be used. */
+  start(): Promise<Exclude<MicrophoneStatus, "pending">>;
+  /** Suspends capturing; the recording simply skips the time until resume. */
+  pause(): void;
+  resume(): void;
+  /** Stops capturing and resolves to the recording, or null if nothing was captured. */
+  stop(): Promise<Blob | null>;
+  /** Stops capturing, if it is, and throws the recording away. */
+  discard(): void;
+}
+
+export interface RecordingResult {
+  audio: Blob | null;
+  microphone: MicrophoneStatus;
+  // Both exclude time spent paused, so they line up with the recording.
+  durationSeconds: number;
+  slideTimings: SlideTiming[];
+}
+
+export interface PresentationSessionOptions {
+  timing: SessionTiming;
+  recorder: SessionRecorder;
+  clock?: SessionClock;
+  /** Called once the slideshow has finished and the recording is available. Send FEEDBACK_SETTLED when done with it. */
+  onRecordingComplete?: (recording: RecordingResult) => void;
+}
+
+export interface PresentationSession {
+  getState(): SessionState;
+  subscribe(listener: (state: SessionState) => void): () => void;
+  /** Applies an event, returning false if its guard rejected it. */
+  send(event: SessionEvent): boolean;
+  /** The current time on the session's clock. */
+  now(): number;
+}
+
+export function createPresentationSession({
+  timing,
+  recorder,
+  clock = systemClock,
+  onRecordingComplete,
+}: PresentationSessionOptions): PresentationSession {
+  let state = createSessionState(timing);
+  const listeners = new Set<(state: SessionState) => void>();
+  let timer: unknown = null;
+  // Bumped on every reset so async work from an abandoned run is ignored when it completes.
+  let run = 0;
+
+  const clearTimer = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+  };
+
+  const schedule = (event: SessionEvent, ms: number) => {
+    clearTimer();
+    timer = clock.setTimeout(() => {
+      timer = null;
+      send(event);
+    }, ms);
+  };
+
+  // The limit only runs once the slide has appeared; until then the speaker is not held to it.
+  const scheduleSlideLimit = (slideshow: SessionState, elapsedMs: number) => {
+    const limitMs = getSlideTimeLimitMs(slideshow.timing);
+    if (limitMs === null || !isCurrentSlideShown(slideshow)) clearTimer();
+    else schedule({ type: "SLIDE_ELAPSED" }, Math.max(0, limitMs - elapsedMs));
+  };
+
+  const startRecording = async () => {
+    const startedRun = run;
+    const microphone = await recorder.start();
+    if (startedRun !== run) {
+      recorder.discard();
+      return;
+    }
+    send({ type: "RECORDING_STARTED", microphone });
+  };
+
+  const stopRecording = async (stopped: SessionState) => {
+    const stoppedRun = run;
+    const audio = stopped.microphone === "recording" ? await recorder.stop() : null;
+    if (stoppedRun !== run) return;
+    const startedAt = stopped.recordingStartedAt ?? stopped.slideVisits[0]?.startedAt ?? stopped.stoppedAt!;
+    onRecordingComplete?.({
+      audio,
+      microphone: stopped.microphone,
+      durationSeconds: toRecordingSeconds(stopped, startedAt, stopped.stoppedAt!),
+      slideTimings: getSlideTimings(stopped),
+    });
+  };
+
+  // Entry actions: start and cancel timers and the recorder as the session moves between states.
+  const runEffects = (previous: SessionState, next: SessionState) => {
+    if (next.stage === "idle") {
+      clearTimer();
+      if (previous.stage !== "idle") {
+        run++;
+        recorder.discard();
+      }
+      return;
+    }
+    if (next.stage === "countdown" && (previous.stage !== "countdown" || previous.countdownValue !== next.countdownValue)) {
+      if (next.countdownValue > 0) schedule({ type: "COUNTDOWN_TICK" }, 1000);
+      else void startRecording();
+      return;
+    }
+    if (next.stage === "slideshow" && next.pausedAt !== null && previous.pausedAt === null) {
+      clearTimer();
+      if (next.microphone === "recording") recorder.pause();
+      return;
+    }
+    if (next.stage === "slideshow" && next.pausedAt === null && previous.pausedAt !== null) {
+      if (next.microphone === "recording") recorder.resume();
+      scheduleSlideLimit(next, getSlideElapsedMs(next, clock.now()));
+      return;
+    }
+    if (
+      next.stage === "slideshow" &&
+      (previous.stage !== "slideshow" || previous.slideVisits.length !== next.slideVisits.length)
+    ) {
+      scheduleSlideLimit(next, 0);
+      return;
+    }
+    if (next.stage === "slideshow" && next.pausedAt === null && !isCurrentSlideShown(previous) && isCurrentSlideShown(next)) {
+      scheduleSlideLimit(next, getSlideElapsedMs(next, clock.now()));
+      return;
+    }
+    if (next.stage === "fetchingFeedback" && previous.stage !== "fetchingFeedback") {
+      clearTimer();
+      void stopRecording(next);
+    }
+  };
+
+  function send(event: SessionEvent): boolean {
+    const previous = state;
+    const next = transition(previous, event, clock.now());
+    if (next === previous) return false;
+    state = next;
+    runEffects(previous, next);
+    listeners.forEach((listener) => listener(state));
+    return true;
+  }
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    send,
+    now: () => clock.now(),
+  };
+}
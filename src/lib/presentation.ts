@@ -0,0 +1,51 @@
+// Presentation settings shared between the client page and the server-side flows.
+// 'use server' modules may only export async functions, so constants live here.
+
+export const MIN_SLIDE_COUNT = 1;
+export const MAX_SLIDE_COUNT = 12;
+export const DEFAULT_SLIDE_COUNT = 3;
+
+export function clampSlideCount(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_SLIDE_COUNT;
+  return Math.min(MAX_SLIDE_COUNT, Math.max(MIN_SLIDE_COUNT, Math.round(value)));
+}
+
+export const SLIDE_STYLE_PRESETS = {
+  photo: {
+    label: "Photo",
+    prompt: "a realistic photograph with natural lighting",
+  },
+  "flat-illustration": {
+    label: "Flat Illustration",
+    prompt: "a flat vector illustration with bold shapes and a limited color palette",
+  },
+  watercolor: {
+    label: "Watercolor",
+    prompt: "a soft watercolor painting with visible brush strokes and paper texture",
+  },
+  diagram: {
+    label: "Diagram",
+    prompt: "a clean explanatory diagram with simple icons and arrows, without any text labels",
+  },
+  "retro-poster": {
+    label: "Retro Poster",
+    prompt: "a retro mid-century poster with grainy print texture and muted colors",
+  },
+  "corporate-stock": {
+    label: "Corporate Stock",
+    prompt: "a polished corporate stock photo in a bright, modern setting",
+  },
+} as const;
+
+export type SlideStyle = keyof typeof SLIDE_STYLE_PRESETS;
+export const SLIDE_STYLES = Object.keys(SLIDE_STYLE_PRESETS) as [SlideStyle, ...SlideStyle[]];
+export const DEFAULT_SLIDE_STYLE: SlideStyle = "photo";
+export const MAX_CUSTOM_STYLE_LENGTH = 120;
+
+export const MAX_TOPIC_LENGTH = 200;
+
+// Follow-up coaching chat.
+export const MAX_COACHING_MESSAGE_LENGTH = 1000;
+
+// Presenter-controlled slide advance.
+export const MAX_SLIDE_LIMIT_SECONDS = 600;
@@ -0,0 +1,275 @@
+// Feedback rubrics shared between the client page and the feedback flow.
+// Coaches can write their own rubric as JSON in this format; a few ship built in.
+
+import { z } from "zod";
+
+export const MAX_RUBRIC_CRITERIA = 8;
+export const DEFAULT_RUBRIC_ID = "impromptu";
+
+const RubricScaleSchema = z
+  .object({
+    min: z.number().int().describe("The lowest score on the scale."),
+    max: z.number().int().describe("The highest score on the scale."),
+    anchors: z
+      .array(z.object({ score: z.number().int(), label: z.string().min(1).max(120) }))
+      .optional()
+      .describe("What particular scores mean, to keep grading consistent."),
+  })
+  .refine((scale) => scale.min < scale.max, { message: "A scale's max must be greater than its min." })
+  .refine((scale) => (scale.anchors ?? []).every(({ score }) => score >= scale.min && score <= scale.max), {
+    message: "Scale anchors must lie within the scale.",
+  });
+export type RubricScale = z.infer<typeof RubricScaleSchema>;
+
+export const RubricCriterionSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-zA-Z][a-zA-Z0-9]{0,39}$/, "Criterion ids must start with a letter and contain only letters and digits.")
+    .describe("A stable key for the criterion; results are keyed by it."),
+  name: z.string().min(1).max(60).describe("The criterion name shown to the speaker."),
+  description: z.string().min(1).max(500).describe("What the criterion assesses and what good looks like."),
+  weight: z.number().positive().max(100).describe("The criterion's relative weight in the overall score."),
+  scale: RubricScaleSchema,
+  requiresOutline: z
+    .boolean()
+    .optional()
+    .describe("Only grade this criterion when the talk was planned from an outline."),
+});
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+
+export const RubricSchema = z.object({
+  id: z.string().min(1).max(60),
+  name: z.string().min(1).max(80),
+  description: z.string().max(300).optional(),
+  criteria: z
+    .array(RubricCriterionSchema)
+    .min(1)
+    .max(MAX_RUBRIC_CRITERIA)
+    .refine((criteria) => new Set(criteria.map(({ id }) => id)).size === criteria.length, {
+      message: "Criterion ids must be unique.",
+    }),
+});
+export type Rubric = z.infer<typeof RubricSchema>;
+
+const TEN_POINT_SCALE: RubricScale = {
+  min: 1,
+  max: 10,
+  anchors: [
+    { score: 3, label: "Seriously held the talk back" },
+    { score: 5, label: "An average impromptu talk" },
+    { score: 8, label: "Genuinely strong" },
+  ],
+};
+
+// Toastmasters Pathways evaluation resources score each point from 1 to 5.
+const TOASTMASTERS_SCALE: RubricScale = {
+  min: 1,
+  max: 5,
+  anchors: [
+    { score: 1, label: "Developing" },
+    { score: 2, label: "Emerging" },
+    { score: 3, label: "Accomplished" },
+    { score: 4, label: "Excels" },
+    { score: 5, label: "Exemplary" },
+  ],
+};
+
+const DEFENSE_SCALE: RubricScale = {
+  min: 1,
+  max: 5,
+  anchors: [
+    { score: 1, label: "Insufficient" },
+    { score: 3, label: "Meets expectations" },
+    { score: 5, label: "Outstanding" },
+  ],
+};
+
+export const BUILT_IN_RUBRICS: Rubric[] = [
+  {
+    id: DEFAULT_RUBRIC_ID,
+    name: "Impromptu Presentation",
+    description: "The default rubric for talking about unseen slides.",
+    criteria: [
+      {
+        id: "clarity",
+        name: "Clarity",
+        description: "How clear and easy to understand was the presentation?",
+        weight: 1,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "pacing",
+        name: "Pacing",
+        description: "Was the presentation too fast, too slow, or just right?",
+        weight: 1,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "contentRelevance",
+        name: "Content Relevance",
+        description:
+          "How well did the speaker interpret what the slide images actually show, and how convincingly did they tie each one to the presentation topic?",
+        weight: 1,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "narrativeArc",
+        name: "Narrative Arc",
+        description:
+          "Did the speaker follow the planned arc from beat to beat, and did the talk build towards the thesis? The speaker did not see the outline, so judge whether they found the thread, not whether they matched it word for word.",
+        weight: 1,
+        scale: TEN_POINT_SCALE,
+        requiresOutline: true,
+      },
+    ],
+  },
+  {
+    id: "toastmasters",
+    name: "Toastmasters Evaluation",
+    description: "Speech evaluation points that can be judged from audio alone.",
+    criteria: [
+      {
+        id: "clarity",
+        name: "Clarity",
+        description: "Spoken language is clear and easily understood.",
+        weight: 1,
+        scale: TOASTMASTERS_SCALE,
+      },
+      {
+        id: "vocalVariety",
+        name: "Vocal Variety",
+        description: "Uses tone, speed and volume as tools to add meaning and interest.",
+        weight: 1,
+        scale: TOASTMASTERS_SCALE,
+      },
+      {
+        id: "organization",
+        name: "Organization",
+        description: "The speech has a clear opening, body and conclusion, with smooth transitions between them.",
+        weight: 1,
+        scale: TOASTMASTERS_SCALE,
+      },
+      {
+        id: "comfortLevel",
+        name: "Comfort Level",
+        description: "Sounds confident and at ease, without relying on filler words or long hesitations.",
+        weight: 1,
+        scale: TOASTMASTERS_SCALE,
+      },
+      {
+        id: "interest",
+        name: "Interest",
+        description: "Engages the audience with interesting, well-constructed content that is relevant to the topic.",
+        weight: 1,
+        scale: TOASTMASTERS_SCALE,
+      },
+    ],
+  },
+  {
+    id: "sales-pitch",
+    name: "Sales Pitch",
+    description: "For pitching a product, service or idea to a prospective buyer.",
+    criteria: [
+      {
+        id: "hook",
+        name: "Hook",
+        description: "The opening grabs attention within the first few sentences.",
+        weight: 1,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "customerProblem",
+        name: "Customer Problem",
+        description: "The buyer's pain point is stated concretely and convincingly.",
+        weight: 1.5,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "valueProposition",
+        name: "Value Proposition",
+        description: "It is clear what is being offered and why it solves the problem better than the alternatives.",
+        weight: 2,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "evidence",
+        name: "Evidence",
+        description: "Claims are backed by examples, numbers or customer stories.",
+        weight: 1,
+        scale: TEN_POINT_SCALE,
+      },
+      {
+        id: "callToAction",
+        name: "Call to Action",
+        description: "The pitch ends with a specific, easy next step for the buyer.",
+        weight: 1.5,
+        scale: TEN_POINT_SCALE,
+      },
+    ],
+  },
+  {
+    id: "thesis-defense",
+    name: "Thesis Defense",
+    description: "For presenting research to an examination committee.",
+    criteria: [
+      {
+        id: "researchQuestion",
+        name: "Research Question",
+        description: "The research question and the contribution of the work are stated early and precisely.",
+        weight: 2,
+        scale: DEFENSE_SCALE,
+      },
+      {
+        id: "methodology",
+        name: "Methodology",
+        description: "The approach is explained and justified well enough for the committee to judge its soundness.",
+        weight: 2,
+        scale: DEFENSE_SCALE,
+      },
+      {
+        id: "results",
+        name: "Results",
+        description: "Findings are presented accurately, with their significance made clear rather than overstated.",
+        weight: 2,
+        scale: DEFENSE_SCALE,
+      },
+      {
+        id: "limitations",
+        name: "Limitations",
+        description: "Limitations and open questions are acknowledged candidly, with directions for future work.",
+        weight: 1,
+        scale: DEFENSE_SCALE,
+      },
+      {
+        id: "composure",
+        name: "Composure",
+        description: "The speaker stays precise and composed, using academic language without hiding behind jargon.",
+        weight: 1,
+        scale: DEFENSE_SCALE,
+      },
+    ],
+  },
+];
+
+export function findBuiltInRubric(id: string): Rubric | undefined {
+  return BUILT_IN_RUBRICS.find((rubric) => rubric.id === id);
+}
+
+export type RubricParseResult = { success: true; rubric: Rubric } | { success: false; error: string };
+
+// Parses a coach-written rubric, reporting the first problem in a form that can be shown next to the editor.
+export function parseRubricJson(text: string): RubricParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { success: false, error: "The rubric is not valid JSON." };
+  }
+  const result = RubricSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join(".");
+    return { success: false, error: path ? `${path}: ${issue.message}` : issue.message };
+  }
+  return { success: true, rubric: result.data };
+}
@@ -0,0 +1,27 @@
+// When each slide was on screen, shared between the client session, the delivery metrics and the feedback flows.
+// Times are in seconds from the start of the recording. A slide the speaker went back to lists each of its visits.
+
+import { z } from "zod";
+
+export const SlideVisitSchema = z.object({
+  startSeconds: z.number(),
+  endSeconds: z.number(),
+});
+export type SlideVisit = z.infer<typeof SlideVisitSchema>;
+
+export const SlideTimingSchema = z.object({
+  startSeconds: z.number().describe("When the slide first appeared, in seconds from the start of the recording."),
+  endSeconds: z
+    .number()
+    .describe("When the slide was last replaced or the talk ended, in seconds from the start of the recording."),
+  visits: z
+    .array(SlideVisitSchema)
+    .optional()
+    .describe("Each stretch the slide was on screen, if the speaker moved back and forth. Defaults to the whole range."),
+});
+export type SlideTiming = z.infer<typeof SlideTimingSchema>;
+
+// The stretches a slide was actually on screen: its visits, or its whole range if it was only shown once.
+export function getSlideVisits(timing: SlideTiming): SlideVisit[] {
+  return timing.visits && timing.visits.length > 0 ? timing.visits : [timing];
+}
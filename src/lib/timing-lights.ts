@@ -0,0 +1,67 @@
+// Toastmasters-style timing lights shared between the client page and the feedback flow.
+// Green shows once the talk has run its minimum time, yellow that it is time to wrap up, and red that time is up.
+// A talk that ends between green and red finished inside the window.
+
+import { z } from "zod";
+import { MAX_TALK_BUDGET_SECONDS } from "@/lib/timing-profiles";
+
+export const OVERTIME_WARNINGS = ["none", "flash", "sound"] as const;
+export type OvertimeWarning = (typeof OVERTIME_WARNINGS)[number];
+
+const thresholdSeconds = (light: string) =>
+  z
+    .number({ invalid_type_error: `Enter the ${light} light time in seconds.` })
+    .int(`The ${light} light time must be a whole number of seconds.`)
+    .min(1, `The ${light} light needs to come on after at least 1 second.`)
+    .max(MAX_TALK_BUDGET_SECONDS, `The ${light} light must come on within ${MAX_TALK_BUDGET_SECONDS} seconds.`);
+
+export const TimingLightsSchema = z
+  .object({
+    greenSeconds: thresholdSeconds("green"),
+    yellowSeconds: thresholdSeconds("yellow"),
+    redSeconds: thresholdSeconds("red"),
+    overtimeWarning: z.enum(OVERTIME_WARNINGS).describe("How to warn the speaker once the red light is on."),
+  })
+  .refine((lights) => lights.greenSeconds < lights.yellowSeconds && lights.yellowSeconds < lights.redSeconds, {
+    message: "The timing lights must come on in order: green, then yellow, then red.",
+  });
+export type TimingLights = z.infer<typeof TimingLightsSchema>;
+
+export type TimingLight = "green" | "yellow" | "red";
+
+// Toastmasters table topics run one to two minutes, with yellow halfway; scale that to the talk budget.
+export function defaultTimingLights(talkBudgetSeconds: number): TimingLights {
+  const redSeconds = Math.max(3, Math.round(talkBudgetSeconds));
+  const greenSeconds = Math.max(1, Math.round(redSeconds / 2));
+  return {
+    greenSeconds,
+    yellowSeconds: Math.max(greenSeconds + 1, Math.round((greenSeconds + redSeconds) / 2)),
+    redSeconds,
+    overtimeWarning: "flash",
+  };
+}
+
+// The light showing after the talk has run for the given time, or null before the green light comes on.
+export function getTimingLight(lights: TimingLights, elapsedSeconds: number): TimingLight | null {
+  if (elapsedSeconds >= lights.redSeconds) return "red";
+  if (elapsedSeconds >= lights.yellowSeconds) return "yellow";
+  if (elapsedSeconds >= lights.greenSeconds) return "green";
+  return null;
+}
+
+export const TimingWindowResultSchema = z.object({
+  greenSeconds: z.number(),
+  redSeconds: z.number(),
+  durationSeconds: z.number().describe("How long the talk ran, not counting pauses."),
+  withinWindow: z.boolean().describe("Whether the talk ended after the green light and before the red light."),
+});
+export type TimingWindowResult = z.infer<typeof TimingWindowResultSchema>;
+
+export function checkTimingWindow(lights: TimingLights, durationSeconds: number): TimingWindowResult {
+  return {
+    greenSeconds: lights.greenSeconds,
+    redSeconds: lights.redSeconds,
+    durationSeconds,
+    withinWindow: durationSeconds >= lights.greenSeconds && durationSeconds <= lights.redSeconds,
+  };
+}
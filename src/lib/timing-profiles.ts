@@ -0,0 +1,61 @@
+// Timing profiles shared between the client page and the feedback flow.
+// A profile sets the countdown, how long each slide stays up and how long the whole talk should take.
+
+import { z } from "zod";
+import { MAX_SLIDE_LIMIT_SECONDS } from "@/lib/presentation";
+
+export const MAX_COUNTDOWN_SECONDS = 10;
+export const MIN_TALK_BUDGET_SECONDS = 10;
+export const MAX_TALK_BUDGET_SECONDS = 3600;
+export const CUSTOM_TIMING_PROFILE_ID = "custom";
+
+export const TimingProfileSchema = z.object({
+  id: z.string().min(1).max(60),
+  name: z.string().min(1).max(80),
+  countdownSeconds: z
+    .number({ invalid_type_error: "Enter the countdown in seconds." })
+    .int("The countdown must be a whole number of seconds.")
+    .min(0, "The countdown cannot be negative.")
+    .max(MAX_COUNTDOWN_SECONDS, `The countdown can be at most ${MAX_COUNTDOWN_SECONDS} seconds.`),
+  slideDurationSeconds: z
+    .number({ invalid_type_error: "Enter the time per slide in seconds." })
+    .int("The time per slide must be a whole number of seconds.")
+    .min(1, "Each slide needs at least 1 second.")
+    .max(MAX_SLIDE_LIMIT_SECONDS, `Each slide can be shown for at most ${MAX_SLIDE_LIMIT_SECONDS} seconds.`),
+  talkBudgetSeconds: z
+    .number({ invalid_type_error: "Enter the talk budget in seconds." })
+    .int("The talk budget must be a whole number of seconds.")
+    .min(MIN_TALK_BUDGET_SECONDS, `The talk budget must be at least ${MIN_TALK_BUDGET_SECONDS} seconds.`)
+    .max(MAX_TALK_BUDGET_SECONDS, `The talk budget can be at most ${MAX_TALK_BUDGET_SECONDS} seconds.`),
+});
+export type TimingProfile = z.infer<typeof TimingProfileSchema>;
+
+export const DEFAULT_TIMING_PROFILE: TimingProfile = {
+  id: "standard",
+  name: "Standard",
+  countdownSeconds: 3,
+  slideDurationSeconds: 15,
+  talkBudgetSeconds: 60,
+};
+
+export const TIMING_PRESETS: TimingProfile[] = [
+  {
+    id: "lightning",
+    name: "Lightning",
+    countdownSeconds: 3,
+    slideDurationSeconds: 8,
+    talkBudgetSeconds: 30,
+  },
+  DEFAULT_TIMING_PROFILE,
+  {
+    id: "extended",
+    name: "Extended",
+    countdownSeconds: 5,
+    slideDurationSeconds: 30,
+    talkBudgetSeconds: 180,
+  },
+];
+
+export function findTimingPreset(id: string): TimingProfile | undefined {
+  return TIMING_PRESETS.find((profile) => profile.id === id);
+}